@@ -0,0 +1,1746 @@
+#!/usr/bin/env node
+import dotenv from 'dotenv';
+import { Command } from 'commander';
+import { DEFAULT_RETRY_POLICY, UniformClient } from './client/uniform-client';
+import { MemberState, MigrationOptions, MigrationResult, MigrationService, RollbackResult } from './services/migration-service';
+import { MemberEvent } from './services/migration-hooks';
+import { EmailMapper } from './services/email-mapper';
+import { AccessRemapper, RemappedAccess } from './services/access-remapper';
+import { MemberSelector, SkippedMember } from './services/member-selector';
+import { runPool } from './services/worker-pool';
+import { ConsoleLogger, LOG_FORMATS, LOG_LEVELS, LogFormat, LogLevel, withLogContext } from './services/logger';
+import { JournalOperation, MigrationJournal } from './services/migration-journal';
+import { BackupKeySource, resolveBackupKey } from './services/backup-encryption';
+import { getBackupTeamId, readBackup } from './services/member-backup';
+import { isSecretReference, resolveSecret } from './services/secret-source';
+import {
+  describeDeprovisionStrategy,
+  DEPROVISION_STRATEGIES,
+  DeprovisionStrategy,
+  selectDeprovisionStrategy,
+} from './services/deprovision-strategy';
+import { ConfirmationPrompt, describeTeamActions, readSecret, summarizeTeamPlan } from './services/confirmation';
+import { describeWaveOptions, RolloutStatus, validateWaveOptions, WaveOptions } from './services/rollout-waves';
+import { describeDeleteLimit, describeTeamOptions, EffectiveTeamOptions, mergeTeamOptions, validateTeamOptions } from './services/team-options';
+import { createTeamReport, getReportFormat, ReportOperation, TeamReport, writeReport } from './services/run-report';
+import {
+  defaultPlanPath,
+  MIGRATION_PLAN_VERSION,
+  MigrationPlan,
+  readPlan,
+  TeamPlan,
+  writePlan,
+} from './services/migration-plan';
+import {
+  BackupKey,
+  BackupOptions,
+  MemberSelectionRules,
+  SecretReference,
+  TeamConfig,
+  TeamConfigEntry,
+} from './types/uniform-api';
+import { TOOL_VERSION } from './version';
+import * as fs from 'fs';
+import * as path from 'path';
+
+// Load environment variables
+dotenv.config();
+
+type CliCommand =
+  | { name: 'run' }
+  | { name: 'plan'; output: string }
+  | { name: 'apply'; planFile: string }
+  | { name: 'rollback'; journalFile: string }
+  | { name: 'verify'; backupFile: string };
+
+let command: CliCommand = { name: 'run' };
+
+// Collect the values of an option that may be given more than once
+function collect(value: string, previous: string[]): string[] {
+  return [...previous, value];
+}
+
+// Define command line options
+const program = new Command();
+program
+  .name('uniform-sso-migration')
+  .description('Migrate Uniform.app users from email-based to SSO authentication')
+  .version(TOOL_VERSION)
+  .option(
+    '--teams-file <path>',
+    'Path to JSON file containing team configurations',
+    ''
+  )
+  .option(
+    '--mark-obsolete',
+    'Mark existing email-based accounts as obsolete',
+    process.env.MARK_OBSOLETE === 'true'
+  )
+  .option(
+    '--no-mark-obsolete',
+    'Don\'t mark existing accounts as obsolete'
+  )
+  .option(
+    '--delete-members',
+    'Delete existing members instead of marking them as obsolete',
+    process.env.DELETE_MEMBERS === 'true'
+  )
+  .option(
+    '--no-delete-members',
+    'Don\'t delete existing members'
+  )
+  .option(
+    '--deprovision <strategy>',
+    `What happens to old accounts: ${DEPROVISION_STRATEGIES.join(', ')} or none (replaces --mark-obsolete and --delete-members)`,
+    process.env.DEPROVISION_STRATEGY
+  )
+  .option(
+    '--obsolete-name-template <template>',
+    'How old accounts are renamed, with {name} standing for the original name',
+    process.env.OBSOLETE_NAME_TEMPLATE
+  )
+  .option(
+    '--send-invitation-emails',
+    'Send an invitation email to invited members (default)',
+    process.env.SEND_INVITATION_EMAILS !== 'false'
+  )
+  .option(
+    '--no-send-invitation-emails',
+    'Invite members without sending them an invitation email'
+  )
+  .option(
+    '--backup',
+    'Create a backup of team members before migration',
+    process.env.BACKUP === 'true' || true // Enabled by default
+  )
+  .option(
+    '--no-backup',
+    'Don\'t create a backup of team members'
+  )
+  .option(
+    '--backup-dir <path>',
+    'Directory to store backups',
+    process.env.BACKUP_DIR || './backups'
+  )
+  .option(
+    '--backup-key-env <name>',
+    'Environment variable holding the key to encrypt and decrypt backups with',
+    process.env.BACKUP_KEY_ENV
+  )
+  .option(
+    '--backup-key-file <path>',
+    'File holding the key to encrypt and decrypt backups with',
+    process.env.BACKUP_KEY_FILE
+  )
+  .option(
+    '--backup-key-prompt',
+    'Ask for the key to encrypt and decrypt backups with on the terminal, without echoing it',
+    false
+  )
+  .option(
+    '--allow-unencrypted-backups',
+    'Write and read backups without encryption',
+    process.env.ALLOW_UNENCRYPTED_BACKUPS === 'true'
+  )
+  .option(
+    '--restore-from <path>',
+    'Restore members from a backup file',
+    ''
+  )
+  .option(
+    '--allow-team-mismatch',
+    'Restore or verify a backup against the configured teams even if it belongs to another team',
+    false
+  )
+  .option(
+    '--fail-on-obsolete',
+    'Fail verification on obsolete accounts left, even if the deprovisioning strategy keeps old accounts',
+    false
+  )
+  .option(
+    '--rules-file <path>',
+    'JSON file with include/exclude rules selecting the members to process',
+    process.env.MEMBER_RULES_FILE || ''
+  )
+  .option(
+    '--email-map <path>',
+    'CSV or JSON file mapping current member emails to their SSO emails',
+    process.env.EMAIL_MAP || ''
+  )
+  .option(
+    '--email-domain-rewrite <rules>',
+    'Comma-separated list of old-domain=new-domain rules for SSO emails',
+    process.env.EMAIL_DOMAIN_REWRITES || ''
+  )
+  .option(
+    '--access-remap <path>',
+    'JSON file renaming roles and dropping, replacing or granting permissions for invited members',
+    process.env.ACCESS_REMAP_FILE || ''
+  )
+  .option(
+    '--journal-dir <path>',
+    'Directory to store run journals',
+    process.env.JOURNAL_DIR || './journals'
+  )
+  .option(
+    '--yes',
+    'Change teams without asking for confirmation; required when not running in a terminal',
+    false
+  )
+  .option(
+    '--confirm-each-member',
+    'Ask before migrating each member in live runs',
+    false
+  )
+  .option(
+    '--resume <journal>',
+    'Resume an interrupted run from its journal file',
+    ''
+  )
+  .option(
+    '--report <path>',
+    'Write a report of every member\'s outcome; .json, .csv or .html (repeatable)',
+    collect,
+    [] as string[]
+  )
+  .option(
+    '--max-retries <count>',
+    'Maximum number of retries for a failed API request',
+    process.env.MAX_RETRIES || String(DEFAULT_RETRY_POLICY.maxRetries)
+  )
+  .option(
+    '--retry-base-delay <ms>',
+    'Base delay in milliseconds for exponential backoff between retries',
+    process.env.RETRY_BASE_DELAY_MS || String(DEFAULT_RETRY_POLICY.baseDelayMs)
+  )
+  .option(
+    '--rate-limit <requests>',
+    'Maximum number of API requests per second (0 for no limit)',
+    process.env.RATE_LIMIT || '5'
+  )
+  .option(
+    '--team-concurrency <count>',
+    'Number of teams processed at the same time',
+    process.env.TEAM_CONCURRENCY || '1'
+  )
+  .option(
+    '--member-concurrency <count>',
+    'Number of members processed at the same time within a team',
+    process.env.MEMBER_CONCURRENCY || '1'
+  )
+  .option(
+    '--log-level <level>',
+    `Log level (${LOG_LEVELS.join(', ')})`,
+    process.env.LOG_LEVEL || 'info'
+  )
+  .option(
+    '--log-format <format>',
+    `Log output format (${LOG_FORMATS.join(', ')})`,
+    process.env.LOG_FORMAT || 'text'
+  )
+  .option(
+    '--redact-emails',
+    'Mask email addresses in log output',
+    process.env.REDACT_EMAILS === 'true'
+  )
+  .option(
+    '--dry-run',
+    'Run without making actual changes',
+    process.env.DRY_RUN === 'true'
+  )
+  .option(
+    '--no-dry-run',
+    'Make actual changes'
+  )
+  .option(
+    '--ignore-emails <emails>',
+    'Comma-separated list of additional emails to ignore',
+    ''
+  )
+  .option(
+    '--break-glass-emails <emails>',
+    'Comma-separated list of accounts that are never deleted or renamed',
+    process.env.BREAK_GLASS_EMAILS || ''
+  )
+  .option(
+    '--max-deletes <count>',
+    'Maximum number of members a run may delete from a team',
+    process.env.MAX_DELETES
+  )
+  .option(
+    '--max-delete-percent <percent>',
+    'Maximum percentage of a team\'s members a run may delete',
+    process.env.MAX_DELETE_PERCENT
+  )
+  .option(
+    '--allow-mass-delete',
+    'Delete members even beyond --max-deletes and --max-delete-percent',
+    process.env.ALLOW_MASS_DELETE === 'true'
+  )
+  .option(
+    '--canary-emails <emails>',
+    'Migrate these members first, as a canary wave (comma-separated)',
+    process.env.CANARY_EMAILS
+  )
+  .option(
+    '--canary-size <count>',
+    'Migrate this many members first, as a canary wave',
+    process.env.CANARY_SIZE
+  )
+  .option(
+    '--wave-size <count>',
+    'After the canary, migrate members in waves of this size',
+    process.env.WAVE_SIZE
+  )
+  .option(
+    '--canary-pause <seconds>',
+    'Seconds to wait after the canary wave (default: --wave-interval)',
+    process.env.CANARY_PAUSE
+  )
+  .option(
+    '--wave-interval <seconds>',
+    'Seconds to wait between waves',
+    process.env.WAVE_INTERVAL
+  )
+  .option(
+    '--max-error-percent <percent>',
+    'Stop the rollout of a team when more than this percentage of its migrated members had errors',
+    process.env.MAX_ERROR_PERCENT || '0'
+  )
+  .action(() => {
+    command = { name: 'run' };
+  });
+
+program
+  .command('plan')
+  .description('Write a reviewable plan of the requests a migration would send, without changing anything')
+  .option(
+    '--output <path>',
+    'Path of the plan file to write (default: ./plans/migration-plan-{timestamp}.json)',
+    ''
+  )
+  .action((commandOptions: { output: string }) => {
+    command = { name: 'plan', output: commandOptions.output };
+  });
+
+program
+  .command('apply')
+  .description('Send exactly the requests listed in a plan file')
+  .argument('<plan>', 'Path of the plan file to apply')
+  .action((planFile: string) => {
+    command = { name: 'apply', planFile };
+  });
+
+program
+  .command('rollback')
+  .description('Undo the changes a migration run made, using its journal')
+  .argument('<journal>', 'Path of the journal of the migration run to roll back')
+  .action((journalFile: string) => {
+    command = { name: 'rollback', journalFile };
+  });
+
+program
+  .command('verify')
+  .description('Check that a migration worked by comparing the team with the backup taken before it')
+  .argument('<backup>', 'Path of the backup taken before the migration')
+  .action((backupFile: string) => {
+    command = { name: 'verify', backupFile };
+  });
+
+program.parse();
+
+const options = program.opts();
+
+// Create logger
+if (!LOG_LEVELS.includes(options.logLevel) || !LOG_FORMATS.includes(options.logFormat)) {
+  console.error(`Error: --log-level must be one of ${LOG_LEVELS.join(', ')} and --log-format one of ${LOG_FORMATS.join(', ')}`);
+  process.exit(1);
+}
+
+const logger = new ConsoleLogger({
+  level: options.logLevel as LogLevel,
+  format: options.logFormat as LogFormat,
+  redactEmails: options.redactEmails,
+});
+
+// Validate report paths before anything runs, so a typo doesn't lose the report
+const reportPaths: string[] = options.report;
+
+for (const reportPath of reportPaths) {
+  try {
+    getReportFormat(reportPath);
+  } catch (error) {
+    logger.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+    process.exit(1);
+  }
+}
+
+// Validate required environment variables
+const apiUrl = process.env.UNIFORM_API_URL;
+
+if (!apiUrl) {
+  logger.error('Error: UNIFORM_API_URL environment variable is required');
+  process.exit(1);
+}
+
+// Get team configurations
+let teamConfigs: TeamConfig[] = [];
+
+// Try to load team configurations from file
+if (options.teamsFile) {
+  try {
+    const teamsFilePath = path.resolve(options.teamsFile);
+    logger.info(`Loading team configurations from ${teamsFilePath}`);
+    
+    if (!fs.existsSync(teamsFilePath)) {
+      logger.error(`Error: Teams file not found: ${teamsFilePath}`);
+      process.exit(1);
+    }
+    
+    const teamsFileContent = fs.readFileSync(teamsFilePath, 'utf8');
+    const teamEntries: TeamConfigEntry[] = JSON.parse(teamsFileContent);
+    
+    // Validate team configurations
+    if (!Array.isArray(teamEntries)) {
+      logger.error('Error: Teams file must contain an array of team configurations');
+      process.exit(1);
+    }
+    
+    for (const entry of teamEntries) {
+      if (!entry.teamId || !(typeof entry.apiKey === 'string' ? entry.apiKey : isSecretReference(entry.apiKey))) {
+        logger.error('Error: Each team configuration must have teamId and apiKey properties');
+        logger.error('apiKey is either the key or a reference to it: {"env": "NAME"}, {"file": "path"} or {"command": "..."}');
+        process.exit(1);
+      }
+
+      if (entry.rules) {
+        MemberSelector.validate(entry.rules, `team ${entry.teamId}`);
+      }
+
+      if (entry.options) {
+        validateTeamOptions(entry.options, `team ${entry.teamId}`);
+      }
+    }
+
+    // Resolve the API keys the teams reference
+    teamConfigs = teamEntries.map((entry) => {
+      const { secret, source } = resolveSecret(entry.apiKey, `API key of team ${entry.teamId}`);
+      return { ...entry, apiKey: secret, apiKeySource: source };
+    });
+  } catch (error) {
+    logger.error(`Error loading teams file: ${error instanceof Error ? error.message : String(error)}`);
+    process.exit(1);
+  }
+} else {
+  // Try to load from environment variables for backward compatibility
+  const teamIds = process.env.TEAM_IDS?.split(',').map(id => id.trim()).filter(Boolean) || [];
+  
+  if (teamIds.length === 0) {
+    logger.error('Error: No team configurations provided. Use --teams-file option or set TEAM_IDS and UNIFORM_API_KEY in .env file');
+    process.exit(1);
+  }
+
+  // The API key may be given directly, or read from a file or a command's output
+  const apiKeyValues: (string | SecretReference)[] = [
+    ...(process.env.UNIFORM_API_KEY ? [process.env.UNIFORM_API_KEY] : []),
+    ...(process.env.UNIFORM_API_KEY_FILE ? [{ file: process.env.UNIFORM_API_KEY_FILE }] : []),
+    ...(process.env.UNIFORM_API_KEY_COMMAND ? [{ command: process.env.UNIFORM_API_KEY_COMMAND }] : []),
+  ];
+
+  if (apiKeyValues.length !== 1) {
+    logger.error('Error: Set exactly one of UNIFORM_API_KEY, UNIFORM_API_KEY_FILE and UNIFORM_API_KEY_COMMAND when using TEAM_IDS');
+    process.exit(1);
+  }
+
+  try {
+    const { secret, source } = resolveSecret(apiKeyValues[0], 'API key');
+    const apiKeySource = source === 'inline' ? 'env:UNIFORM_API_KEY' : source;
+
+    // Create team configurations from environment variables
+    teamConfigs = teamIds.map(teamId => ({ teamId, apiKey: secret, apiKeySource }));
+  } catch (error) {
+    logger.error(`Error loading API key: ${error instanceof Error ? error.message : String(error)}`);
+    process.exit(1);
+  }
+}
+
+// Keep API keys out of the logs
+teamConfigs.forEach((config) => logger.addSecret(config.apiKey));
+
+// Get additional ignored emails
+const envIgnoredEmails = process.env.IGNORED_EMAILS 
+  ? process.env.IGNORED_EMAILS.split(',').map(email => email.trim()).filter(Boolean)
+  : [];
+
+const additionalIgnoredEmails = options.ignoreEmails
+  ? options.ignoreEmails.split(',').map((email: string) => email.trim()).filter(Boolean)
+  : [];
+
+// Combine ignored emails from both sources
+const ignoredEmails = [...new Set([...envIgnoredEmails, ...additionalIgnoredEmails])];
+
+// Break-glass accounts are never deleted or renamed
+const breakGlassEmails: string[] = options.breakGlassEmails
+  .split(',')
+  .map((email: string) => email.trim())
+  .filter(Boolean);
+
+// Parse the limits on how many members a run may delete
+const maxDeletes = options.maxDeletes !== undefined ? Number(options.maxDeletes) : undefined;
+const maxDeletePercent = options.maxDeletePercent !== undefined ? Number(options.maxDeletePercent) : undefined;
+
+if (maxDeletes !== undefined && (!Number.isInteger(maxDeletes) || maxDeletes < 0)) {
+  logger.error('Error: --max-deletes must be a non-negative integer');
+  process.exit(1);
+}
+
+if (maxDeletePercent !== undefined && (!Number.isFinite(maxDeletePercent) || maxDeletePercent < 0 || maxDeletePercent > 100)) {
+  logger.error('Error: --max-delete-percent must be a number from 0 to 100');
+  process.exit(1);
+}
+
+// Pick what happens to old accounts; --deprovision replaces --mark-obsolete and --delete-members
+let deprovision: DeprovisionStrategy | undefined;
+
+try {
+  deprovision = selectDeprovisionStrategy(options.deprovision, {
+    markObsolete: options.markObsolete,
+    deleteMembers: options.deleteMembers,
+    nameTemplate: options.obsoleteNameTemplate,
+  });
+} catch (error) {
+  logger.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+  process.exit(1);
+}
+
+// Create backup options
+// Resolve the key backups are encrypted with, if any. The key is never taken
+// as an argument, which other users of the machine could read; a prompted
+// key is asked for once the command runs
+const backupKeySources: BackupKeySource[] = [
+  ...(options.backupKeyEnv ? [{ type: 'env' as const, name: options.backupKeyEnv }] : []),
+  ...(options.backupKeyFile ? [{ type: 'file' as const, path: options.backupKeyFile }] : []),
+];
+
+if (backupKeySources.length + (options.backupKeyPrompt ? 1 : 0) > 1) {
+  logger.error('Error: Use only one of --backup-key-env, --backup-key-file and --backup-key-prompt');
+  process.exit(1);
+}
+
+if (options.backupKeyPrompt && !process.stdin.isTTY) {
+  logger.error('Error: --backup-key-prompt needs a terminal; use --backup-key-env or --backup-key-file to run unattended');
+  process.exit(1);
+}
+
+let backupKey: BackupKey | undefined;
+
+if (backupKeySources.length === 1) {
+  try {
+    backupKey = resolveBackupKey(backupKeySources[0]);
+    logger.addSecret(backupKey.secret);
+  } catch (error) {
+    logger.error(`Error loading backup key: ${error instanceof Error ? error.message : String(error)}`);
+    process.exit(1);
+  }
+}
+
+const backupOptions: BackupOptions = {
+  enabled: options.backup,
+  path: options.backupDir,
+  key: backupKey,
+  allowUnencrypted: options.allowUnencryptedBackups,
+};
+
+// Parse retry, rate limit and concurrency settings
+const maxRetries = Number(options.maxRetries);
+const retryBaseDelayMs = Number(options.retryBaseDelay);
+const requestsPerSecond = Number(options.rateLimit);
+const teamConcurrency = Number(options.teamConcurrency);
+const memberConcurrency = Number(options.memberConcurrency);
+
+for (const [name, value] of [
+  ['--team-concurrency', teamConcurrency],
+  ['--member-concurrency', memberConcurrency],
+] as const) {
+  if (!Number.isInteger(value) || value < 1) {
+    logger.error(`Error: ${name} must be a positive integer`);
+    process.exit(1);
+  }
+}
+
+for (const [name, value] of [
+  ['--max-retries', maxRetries],
+  ['--retry-base-delay', retryBaseDelayMs],
+  ['--rate-limit', requestsPerSecond],
+] as const) {
+  if (!Number.isFinite(value) || value < 0) {
+    logger.error(`Error: ${name} must be a non-negative number`);
+    process.exit(1);
+  }
+}
+
+// Load the email mapping for SSO identities, if any
+let emailMapper: EmailMapper | undefined;
+
+try {
+  const domainRewrites = EmailMapper.parseDomainRewrites(options.emailDomainRewrite);
+
+  if (options.emailMap) {
+    emailMapper = EmailMapper.fromFile(options.emailMap, domainRewrites);
+  } else if (domainRewrites.length > 0) {
+    emailMapper = new EmailMapper({}, domainRewrites);
+  }
+} catch (error) {
+  logger.error(`Error loading email mapping: ${error instanceof Error ? error.message : String(error)}`);
+  process.exit(1);
+}
+
+// Load the role and permission remapping, if any
+let accessRemapper: AccessRemapper | undefined;
+
+if (options.accessRemap) {
+  try {
+    accessRemapper = AccessRemapper.fromFile(options.accessRemap);
+  } catch (error) {
+    logger.error(`Error loading access remap file: ${error instanceof Error ? error.message : String(error)}`);
+    process.exit(1);
+  }
+}
+
+// Load the global member selection rules, if any
+let selectionRules: MemberSelectionRules | undefined;
+
+if (options.rulesFile) {
+  try {
+    selectionRules = MemberSelector.loadRules(options.rulesFile);
+  } catch (error) {
+    logger.error(`Error loading rules file: ${error instanceof Error ? error.message : String(error)}`);
+    process.exit(1);
+  }
+}
+
+// Migrate each team in waves when a canary or a wave size is given
+const canaryEmails: string[] = (options.canaryEmails || '')
+  .split(',')
+  .map((email: string) => email.trim())
+  .filter(Boolean);
+let waves: WaveOptions | undefined;
+
+if (canaryEmails.length > 0 || options.canarySize !== undefined || options.waveSize !== undefined) {
+  const seconds = (value: string | undefined) => (value !== undefined ? Number(value) * 1000 : undefined);
+  waves = {
+    canaryEmails,
+    canarySize: options.canarySize !== undefined ? Number(options.canarySize) : undefined,
+    batchSize: options.waveSize !== undefined ? Number(options.waveSize) : undefined,
+    canaryPauseMs: seconds(options.canaryPause),
+    intervalMs: seconds(options.waveInterval),
+    maxErrorPercent: Number(options.maxErrorPercent),
+  };
+
+  try {
+    validateWaveOptions(waves);
+  } catch (error) {
+    logger.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+    process.exit(1);
+  }
+}
+
+if (options.yes && options.confirmEachMember) {
+  logger.error('Error: --confirm-each-member can\'t be combined with --yes');
+  process.exit(1);
+}
+
+// Create migration options
+const migrationOptions: MigrationOptions = {
+  markObsolete: deprovision !== undefined && deprovision.name !== 'delete',
+  deleteMembers: deprovision?.name === 'delete',
+  deprovision,
+  dryRun: options.dryRun,
+  sendInvitationEmails: options.sendInvitationEmails,
+  backup: backupOptions,
+  ignoredEmails: ignoredEmails,
+  breakGlassEmails,
+  maxDeletes,
+  maxDeletePercent,
+  allowMassDelete: options.allowMassDelete,
+  emailMapper,
+  accessRemapper,
+  selectionRules,
+  memberConcurrency,
+  waves,
+  allowTeamMismatch: options.allowTeamMismatch,
+  failOnObsolete: options.failOnObsolete,
+  logger,
+};
+
+// Apply each team's option overrides to the global options
+const teamOptions = new Map<string, EffectiveTeamOptions>();
+
+for (const teamConfig of teamConfigs) {
+  try {
+    teamOptions.set(
+      teamConfig.teamId,
+      mergeTeamOptions(apiUrl, migrationOptions, teamConfig.options, `team ${teamConfig.teamId}`)
+    );
+  } catch (error) {
+    logger.error(`Error in team options: ${error instanceof Error ? error.message : String(error)}`);
+    process.exit(1);
+  }
+}
+
+/**
+ * Process teams with the configured team concurrency. With more than one
+ * worker, log lines are prefixed with the team they belong to.
+ * @param items The teams to process
+ * @param worker Process a single team and return its result; must handle its own errors
+ * @returns The results in the order of the teams
+ */
+async function forEachTeam<T extends { teamId: string }, R>(
+  items: T[],
+  worker: (item: T) => Promise<R | undefined>
+): Promise<R[]> {
+  const results: (R | undefined)[] = new Array(items.length);
+
+  await runPool(items, teamConcurrency, async (item, index) => {
+    results[index] = teamConcurrency > 1
+      ? await withLogContext(item.teamId, () => worker(item))
+      : await worker(item);
+  });
+
+  return results.filter((result): result is R => result !== undefined);
+}
+
+/**
+ * Print the options that decide which members are processed and how they are invited
+ */
+function printMemberOptions() {
+  if (ignoredEmails.length > 0) {
+    logger.info(`Ignored emails: ${ignoredEmails.join(', ')}`);
+  }
+
+  if (breakGlassEmails.length > 0) {
+    logger.info(`Break-glass emails: ${breakGlassEmails.join(', ')}`);
+  }
+
+  if (emailMapper) {
+    logger.info(`Email mapping: ${emailMapper.describe()}`);
+  }
+
+  if (accessRemapper) {
+    logger.info(`Access remapping: ${accessRemapper.describe()}`);
+  }
+
+  if (selectionRules) {
+    logger.info(`Selection rules: ${new MemberSelector(selectionRules, 'global').describe()}`);
+  }
+
+  for (const teamConfig of teamConfigs.filter((config) => config.rules)) {
+    logger.info(`Selection rules for team ${teamConfig.teamId}: ${new MemberSelector(teamConfig.rules!, `team ${teamConfig.teamId}`).describe()}`);
+  }
+}
+
+/**
+ * Print how far a team's rollout in waves got
+ * @param rollout The rollout status
+ */
+function printRollout(rollout: RolloutStatus) {
+  logger.info(
+    `- Waves completed: ${rollout.completedWaves.length} of ${rollout.wavesPlanned}` +
+      (rollout.lastCompletedWave ? ` (last: ${rollout.lastCompletedWave})` : '')
+  );
+  if (rollout.stoppedReason) {
+    logger.info(`- Rollout stopped: ${rollout.stoppedReason}`);
+    logger.info(`- Members not started: ${rollout.membersNotStarted}; run the migration again to continue`);
+  }
+}
+
+/**
+ * Print the skipped members and the reason each was skipped
+ * @param skipped The skipped members
+ */
+function printSkippedMembers(skipped: SkippedMember[]) {
+  if (skipped.length > 0) {
+    logger.info('\nSkipped members:');
+    skipped.forEach((member) => {
+      logger.info(`  - ${member.email}: ${member.reason}`);
+    });
+  }
+}
+
+/**
+ * Print the members a run didn't fully migrate, and where each was left
+ * @param memberStates The final state of every member the run tried to migrate
+ */
+function printUnfinishedMembers(memberStates: MemberState[]) {
+  const unfinished = memberStates.filter((memberState) => memberState.state !== 'migrated');
+  if (unfinished.length > 0) {
+    logger.info('\nMembers not fully migrated:');
+    unfinished.forEach((memberState) => {
+      logger.info(`  - ${memberState.email}: ${memberState.state}${memberState.detail ? ` (${memberState.detail})` : ''}`);
+    });
+  }
+}
+
+/**
+ * Print the members whose access the access remap changed
+ * @param remappedAccess The members' access before and after the remap
+ */
+function printRemappedAccess(remappedAccess: RemappedAccess[]) {
+  if (remappedAccess.length > 0) {
+    logger.info('\nRemapped access (invited with changed roles or permissions):');
+    remappedAccess.forEach((member) => {
+      logger.info(`  - ${member.email}:`);
+      member.changes.forEach((change) => logger.info(`      ${change}`));
+    });
+  }
+}
+
+/**
+ * Print the members that no email mapping matched
+ * @param unmappedEmails The unmapped member emails
+ */
+function printUnmappedEmails(unmappedEmails: string[]) {
+  if (unmappedEmails.length > 0) {
+    logger.info('\nNo email mapping (invited with the unchanged email):');
+    unmappedEmails.forEach((email) => {
+      logger.info(`  - ${email}`);
+    });
+  }
+}
+
+// Create one client per API, so teams on the same API share its rate limit
+const clients = new Map<string, UniformClient>();
+
+function getClient(url: string): UniformClient {
+  let client = clients.get(url);
+  if (!client) {
+    client = new UniformClient(url, {
+      retry: {
+        maxRetries: Math.floor(maxRetries),
+        baseDelayMs: retryBaseDelayMs,
+      },
+      requestsPerSecond,
+      logger,
+    });
+    clients.set(url, client);
+  }
+  return client;
+}
+
+/**
+ * Create the migration service for a team, using the team's API and options
+ * @param teamConfig The team configuration
+ * @param journal The journal of the run, if any
+ * @returns The migration service
+ */
+function createTeamService(
+  teamConfig: TeamConfig,
+  journal?: MigrationJournal,
+  previousJournals?: MigrationJournal[]
+): MigrationService {
+  const effective = teamOptions.get(teamConfig.teamId)!;
+  const hooks =
+    options.confirmEachMember && !migrationOptions.dryRun
+      ? { ...effective.options.hooks, beforeMember: (event: MemberEvent) => getPrompt().confirmMember(event) }
+      : effective.options.hooks;
+  return new MigrationService(getClient(effective.apiUrl), { ...effective.options, journal, previousJournals, hooks });
+}
+
+let prompt: ConfirmationPrompt | undefined;
+
+/**
+ * Get the prompt that asks the operator for confirmation, checking that
+ * there is a terminal to ask on
+ * @returns The prompt
+ */
+function getPrompt(): ConfirmationPrompt {
+  if (!process.stdin.isTTY) {
+    logger.error('Error: Refusing to change teams without a terminal to confirm on; pass --yes to run unattended');
+    process.exit(1);
+  }
+
+  prompt ??= new ConfirmationPrompt();
+  return prompt;
+}
+
+/**
+ * In live runs without --yes, show what the run will do to every team and
+ * have the operator confirm each team by typing its ID. Exits if no team is
+ * confirmed.
+ * @param teams The teams of the run
+ * @param describe Describe what the run will do to a team
+ * @returns The confirmed teams
+ */
+async function confirmTeams<T extends { teamId: string }>(
+  teams: T[],
+  describe: (team: T) => string[] | Promise<string[]>
+): Promise<T[]> {
+  if (migrationOptions.dryRun || options.yes || teams.length === 0) {
+    return teams;
+  }
+
+  const confirmPrompt = getPrompt();
+  const confirmed: T[] = [];
+  for (const team of teams) {
+    if (await confirmPrompt.confirmTeam(team.teamId, await describe(team))) {
+      confirmed.push(team);
+    } else {
+      logger.warn(`Team ${team.teamId} was not confirmed and is skipped`);
+    }
+  }
+
+  if (confirmed.length === 0) {
+    logger.error('No team was confirmed, nothing was changed.');
+    process.exit(1);
+  }
+
+  return confirmed;
+}
+
+/**
+ * Print the options every team is migrated with, after its overrides
+ * @param teams The teams of the run
+ */
+function printTeamOptions(teams: TeamConfig[]) {
+  for (const teamConfig of teams) {
+    logger.info(`Team ${teamConfig.teamId}${teamConfig.options ? ' (with team overrides)' : ''}:`);
+    describeTeamOptions(teamOptions.get(teamConfig.teamId)!).forEach((line) => logger.info(`  ${line}`));
+  }
+}
+
+/**
+ * Open the journal for a run: the one passed with --resume, or a new one for
+ * live runs. Dry runs only read a resumed journal and never write one.
+ * @param operation The operation being run
+ * @returns The journal, if the run should use one
+ */
+function openJournal(operation: JournalOperation): MigrationJournal | undefined {
+  if (options.resume) {
+    return MigrationJournal.resume(options.resume, operation);
+  }
+
+  if (migrationOptions.dryRun) {
+    return undefined;
+  }
+
+  return MigrationJournal.create(MigrationJournal.defaultPath(options.journalDir, operation), operation);
+}
+
+/**
+ * Open the journals of earlier migration runs, so accounts their invitations
+ * created are recognised as already migrated. A journal that can't be read
+ * is left out with a warning.
+ * @returns The journals of earlier runs
+ */
+function readPreviousJournals(): MigrationJournal[] {
+  const resumedPath = options.resume ? path.resolve(options.resume) : undefined;
+  const journals: MigrationJournal[] = [];
+
+  for (const journalPath of MigrationJournal.listPaths(options.journalDir, 'migrate')) {
+    if (journalPath === resumedPath) {
+      continue;
+    }
+
+    try {
+      journals.push(MigrationJournal.resume(journalPath, 'migrate'));
+    } catch (error) {
+      logger.warn(`Ignoring journal ${journalPath}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  return journals;
+}
+
+/**
+ * Print where the journal of a run is kept and how to resume it
+ * @param journal The journal of the run
+ */
+function printJournalHint(journal: MigrationJournal | undefined) {
+  if (journal) {
+    logger.info(`\nRun journal: ${journal.path}`);
+    logger.info(`If this run was interrupted or had errors, continue it with --resume ${journal.path}`);
+  }
+}
+
+/**
+ * Write the run report to every path passed with --report. A report that
+ * can't be written fails the run, but only after every other report is written.
+ * @param operation The operation that was run
+ * @param startedAt When the run started
+ * @param teams The report entries of the teams
+ */
+function writeReports(operation: ReportOperation, startedAt: string, teams: TeamReport[]) {
+  const report = {
+    operation,
+    apiUrl: apiUrl!,
+    dryRun: migrationOptions.dryRun,
+    startedAt,
+    completedAt: new Date().toISOString(),
+    teams,
+  };
+
+  for (const reportPath of reportPaths) {
+    try {
+      writeReport(report, reportPath);
+      logger.info(`Report written to: ${path.resolve(reportPath)}`);
+    } catch (error) {
+      logger.error(`Error writing report ${reportPath}`, { error });
+      process.exitCode = 1;
+    }
+  }
+}
+
+/**
+ * Ask for the backup key on the terminal when --backup-key-prompt is set, and
+ * use it for the backups of every team
+ */
+async function promptForBackupKey() {
+  if (!options.backupKeyPrompt) {
+    return;
+  }
+
+  try {
+    backupKey = resolveBackupKey({ type: 'passphrase', passphrase: await readSecret('Backup key: ') });
+  } catch (error) {
+    logger.error(`Error loading backup key: ${error instanceof Error ? error.message : String(error)}`);
+    process.exit(1);
+  }
+
+  logger.addSecret(backupKey.secret);
+  backupOptions.key = backupKey;
+  for (const effective of teamOptions.values()) {
+    effective.options.backup.key = backupKey;
+  }
+}
+
+// Run the selected command
+async function run() {
+  await promptForBackupKey();
+
+  if (command.name === 'plan') {
+    await runPlan(command.output);
+  } else if (command.name === 'apply') {
+    await runApply(command.planFile);
+  } else if (command.name === 'rollback') {
+    await runRollback(command.journalFile);
+  } else if (command.name === 'verify') {
+    await runVerify(command.backupFile);
+  } else if (options.restoreFrom) {
+    await runRestore();
+  } else {
+    await runMigration();
+  }
+}
+
+/**
+ * Describe how backups are encrypted for run headers
+ * @returns The description
+ */
+function describeBackupEncryption(): string {
+  if (backupKey) {
+    return `key from ${backupKey.source}`;
+  }
+  return backupOptions.allowUnencrypted ? 'none (unencrypted backups allowed)' : 'none';
+}
+
+/**
+ * Exit before anything runs if backups are written but there is no key to
+ * encrypt them with and unencrypted backups aren't allowed
+ * @param teams The teams of the run, which may enable backups for themselves
+ */
+function requireBackupKey(teams: TeamConfig[]) {
+  const backupsEnabled = teams.some((config) => teamOptions.get(config.teamId)!.options.backup.enabled);
+  if (backupsEnabled && !backupKey && !backupOptions.allowUnencrypted) {
+    logger.error('Error: Backups must be encrypted. Use --backup-key-env, --backup-key-file or --backup-key-prompt,');
+    logger.error('or pass --allow-unencrypted-backups to write them unencrypted.');
+    process.exit(1);
+  }
+}
+
+/**
+ * Check the API key of every team against the API before anything is
+ * changed, so a bad key fails the run up front instead of partway through a
+ * team. Exits if any key can't be used.
+ * @param teams The teams the run will change
+ */
+async function preflightApiKeys(teams: TeamConfig[]) {
+  const failures: string[] = [];
+
+  logger.info('Checking API keys');
+
+  for (const teamConfig of teams) {
+    let reason: string | undefined;
+    try {
+      reason = await createTeamService(teamConfig).checkApiKey(teamConfig);
+    } catch (error) {
+      reason = `Failed to reach the API for team ${teamConfig.teamId}: ${error instanceof Error ? error.message : String(error)}`;
+    }
+
+    if (reason) {
+      failures.push(reason);
+    } else {
+      logger.info(`- Team ${teamConfig.teamId}: API key accepted (${teamConfig.apiKeySource || 'inline'})`);
+    }
+  }
+
+  if (failures.length > 0) {
+    logger.error('Preflight failed, nothing was changed:');
+    failures.forEach((reason) => logger.error(`- ${reason}`));
+    process.exit(1);
+  }
+}
+
+/**
+ * Check, before anything is changed, that no team would lose its last admin
+ * or a break-glass account, or have more members deleted than allowed.
+ * Exits if any team would.
+ * @param teams The teams of the run, with the plan of each when applying one
+ * @param journal The journal of a resumed run
+ * @param previousJournals The journals of earlier runs
+ */
+async function preflightSafety(
+  teams: { teamConfig: TeamConfig; teamPlan?: TeamPlan }[],
+  journal?: MigrationJournal,
+  previousJournals?: MigrationJournal[]
+) {
+  const failures: string[] = [];
+
+  logger.info('Checking team safety');
+
+  for (const { teamConfig, teamPlan } of teams) {
+    let problems: string[];
+    try {
+      problems = await createTeamService(teamConfig, journal, previousJournals).checkSafety(teamConfig, teamPlan);
+    } catch (error) {
+      problems = [`Failed to check team ${teamConfig.teamId}: ${error instanceof Error ? error.message : String(error)}`];
+    }
+
+    if (problems.length > 0) {
+      failures.push(...problems);
+    } else {
+      logger.info(`- Team ${teamConfig.teamId}: OK`);
+    }
+  }
+
+  if (failures.length > 0) {
+    logger.error('Preflight failed, nothing was changed:');
+    failures.forEach((reason) => logger.error(`- ${reason}`));
+    process.exit(1);
+  }
+}
+
+/**
+ * Select the configured teams a backup is used for. A backup belongs to a
+ * single team, so only that team is selected unless mismatches are explicitly
+ * allowed. Exits if no configured team matches.
+ * @param backupPath The backup file path
+ * @returns The team the backup belongs to, if known, and the selected teams
+ */
+function selectBackupTeams(backupPath: string): { backupTeamId?: string; teams: TeamConfig[] } {
+  let backupTeamId: string | undefined;
+  try {
+    backupTeamId = getBackupTeamId(backupPath, readBackup(backupPath, backupOptions));
+  } catch (error) {
+    logger.error(`Error reading backup: ${error instanceof Error ? error.message : String(error)}`);
+    process.exit(1);
+  }
+
+  const teams = migrationOptions.allowTeamMismatch
+    ? teamConfigs
+    : teamConfigs.filter((config) => config.teamId === backupTeamId);
+
+  if (teams.length === 0) {
+    logger.error(
+      backupTeamId
+        ? `Error: Backup belongs to team ${backupTeamId}, which is not among the configured teams`
+        : 'Error: Backup doesn\'t record its team'
+    );
+    logger.error('Use --allow-team-mismatch to use it for the configured teams anyway.');
+    process.exit(1);
+  }
+
+  return { backupTeamId, teams };
+}
+
+// Run the restore process
+async function runRestore() {
+  const startedAt = new Date().toISOString();
+  const { backupTeamId, teams: restoreTeams } = selectBackupTeams(options.restoreFrom);
+
+  logger.info('Starting Uniform SSO Restore');
+  logger.info('============================');
+  logger.info(`API URL: ${apiUrl}`);
+  logger.info(`Backup file: ${options.restoreFrom}`);
+  logger.info(`Backup team: ${backupTeamId || 'unknown'}`);
+  logger.info(`Teams to restore: ${restoreTeams.map(config => config.teamId).join(', ') || 'None'}`);
+  logger.info(`Dry run: ${migrationOptions.dryRun}`);
+  
+  printMemberOptions();
+  printTeamOptions(restoreTeams);
+
+  await preflightApiKeys(restoreTeams);
+
+  const confirmedTeams = await confirmTeams(restoreTeams, () => [`Restore members from ${options.restoreFrom}`]);
+
+  const journal = openJournal('restore');
+  if (journal) {
+    logger.info(`${options.resume ? 'Resuming from' : 'Writing'} journal: ${journal.path}`);
+  }
+  
+  logger.info('============================\n');
+
+  // Process each team
+  const results = await forEachTeam(confirmedTeams, async (teamConfig) => {
+    try {
+      logger.info(`Processing team ${teamConfig.teamId}`);
+      const result = await createTeamService(teamConfig, journal).restoreFromBackup(options.restoreFrom, teamConfig);
+      return {
+        teamId: teamConfig.teamId,
+        ...result
+      };
+    } catch (error) {
+      logger.error(`Error restoring team ${teamConfig.teamId}`, { error });
+      return undefined;
+    }
+  });
+
+  // Print summary
+  logger.info('\n============================');
+  logger.info('Restore Summary');
+  logger.info('============================');
+  
+  let totalRestored = 0;
+  let totalUpdated = 0;
+  let totalUnchanged = 0;
+  let totalErrors = 0;
+
+  for (const result of results) {
+    logger.info(`\nTeam: ${result.teamId}`);
+    logger.info(`- Members restored: ${result.membersRestored}`);
+    logger.info(`- Members with access restored: ${result.membersUpdated}`);
+    logger.info(`- Members unchanged: ${result.membersUnchanged}`);
+    logger.info(`- Errors: ${result.errors.length}`);
+
+    totalRestored += result.membersRestored;
+    totalUpdated += result.membersUpdated;
+    totalUnchanged += result.membersUnchanged;
+    totalErrors += result.errors.length;
+
+    printSkippedMembers(result.skipped);
+    printUnmappedEmails(result.unmappedEmails);
+
+    // Print errors if any
+    if (result.errors.length > 0) {
+      logger.info('\nErrors:');
+      result.errors.forEach((error, index) => {
+        logger.info(`  ${index + 1}. ${error}`);
+      });
+    }
+  }
+
+  logger.info('\nTotal:');
+  logger.info(`- Members restored: ${totalRestored}`);
+  logger.info(`- Members with access restored: ${totalUpdated}`);
+  logger.info(`- Members unchanged: ${totalUnchanged}`);
+  logger.info(`- Errors: ${totalErrors}`);
+  logger.info('============================');
+
+  writeReports(
+    'restore',
+    startedAt,
+    results.map((result) => ({
+      teamId: result.teamId,
+      counts: {
+        membersRestored: result.membersRestored,
+        membersUpdated: result.membersUpdated,
+        membersUnchanged: result.membersUnchanged,
+        membersSkipped: result.skipped.length,
+        errors: result.errors.length,
+      },
+      members: result.members,
+      errors: result.errors,
+    }))
+  );
+
+  printJournalHint(journal);
+
+  if (migrationOptions.dryRun) {
+    logger.info('\nThis was a DRY RUN. No actual changes were made.');
+    logger.info('To make actual changes, run with --no-dry-run option.');
+  }
+}
+
+// Print the summary of migration results
+function printMigrationSummary(results: MigrationResult[]) {
+  logger.info('\n==============================');
+  logger.info('Migration Summary');
+  logger.info('==============================');
+  
+  let totalMembers = 0;
+  let totalSkipped = 0;
+  let totalAlreadyMigrated = 0;
+  let totalMarkedObsolete = 0;
+  let totalDeleted = 0;
+  let totalInvitations = 0;
+  let totalBackups = 0;
+  let totalErrors = 0;
+
+  for (const result of results) {
+    logger.info(`\nTeam: ${result.teamId}`);
+    logger.info(`- Members found: ${result.membersFound}`);
+    logger.info(`- Members skipped: ${result.skippedMembers}`);
+    logger.info(`- Members already migrated: ${result.membersAlreadyMigrated}`);
+    logger.info(`- Members marked obsolete: ${result.membersMarkedObsolete}`);
+    logger.info(`- Members deleted: ${result.membersDeleted}`);
+    logger.info(`- Invitations sent: ${result.invitationsSent}`);
+    logger.info(`- Backup created: ${result.backupCreated ? 'Yes' : 'No'}`);
+    if (result.backupPath) {
+      logger.info(`  - Backup path: ${result.backupPath}`);
+    }
+    logger.info(`- Errors: ${result.errors.length}`);
+    if (result.rollout) {
+      printRollout(result.rollout);
+    }
+
+    totalMembers += result.membersFound;
+    totalSkipped += result.skippedMembers;
+    totalAlreadyMigrated += result.membersAlreadyMigrated;
+    totalMarkedObsolete += result.membersMarkedObsolete;
+    totalDeleted += result.membersDeleted;
+    totalInvitations += result.invitationsSent;
+    totalBackups += result.backupCreated ? 1 : 0;
+    totalErrors += result.errors.length;
+
+    printSkippedMembers(result.skipped);
+    printUnmappedEmails(result.unmappedEmails);
+    printRemappedAccess(result.remappedAccess);
+    printUnfinishedMembers(result.memberStates);
+
+    // Print errors if any
+    if (result.errors.length > 0) {
+      logger.info('\nErrors:');
+      result.errors.forEach((error, index) => {
+        logger.info(`  ${index + 1}. ${error}`);
+      });
+    }
+  }
+
+  logger.info('\nTotal:');
+  logger.info(`- Members found: ${totalMembers}`);
+  logger.info(`- Members skipped: ${totalSkipped}`);
+  logger.info(`- Members already migrated: ${totalAlreadyMigrated}`);
+  logger.info(`- Members marked obsolete: ${totalMarkedObsolete}`);
+  logger.info(`- Members deleted: ${totalDeleted}`);
+  logger.info(`- Invitations sent: ${totalInvitations}`);
+  logger.info(`- Backups created: ${totalBackups}`);
+  logger.info(`- Errors: ${totalErrors}`);
+  logger.info('==============================');
+}
+
+// Run the migration
+async function runMigration() {
+  const startedAt = new Date().toISOString();
+
+  logger.info('Starting Uniform SSO Migration');
+  logger.info('==============================');
+  logger.info(`API URL: ${apiUrl}`);
+  logger.info(`Teams to process: ${teamConfigs.map(config => config.teamId).join(', ')}`);
+  logger.info(`Deprovisioning: ${describeDeprovisionStrategy(deprovision)}`);
+  logger.info(`Delete limit: ${describeDeleteLimit(migrationOptions)}`);
+  logger.info(`Backup enabled: ${migrationOptions.backup.enabled}`);
+  logger.info(`Backup directory: ${migrationOptions.backup.path}`);
+  logger.info(`Backup encryption: ${describeBackupEncryption()}`);
+  logger.info(`Retries: ${maxRetries} (base delay ${retryBaseDelayMs}ms), rate limit: ${requestsPerSecond ? `${requestsPerSecond} requests/s` : 'none'}`);
+  logger.info(`Concurrency: ${teamConcurrency} teams, ${memberConcurrency} members per team`);
+  logger.info(`Waves: ${describeWaveOptions(waves)}`);
+  logger.info(`Dry run: ${migrationOptions.dryRun}`);
+  
+  printMemberOptions();
+  printTeamOptions(teamConfigs);
+
+  requireBackupKey(teamConfigs);
+
+  await preflightApiKeys(teamConfigs);
+
+  const previousJournals = readPreviousJournals();
+  const resumedJournal = options.resume ? MigrationJournal.resume(options.resume, 'migrate') : undefined;
+  await preflightSafety(
+    teamConfigs.map((teamConfig) => ({ teamConfig })),
+    resumedJournal,
+    previousJournals
+  );
+
+  const confirmedTeams = await confirmTeams(teamConfigs, async (teamConfig) => {
+    const teamPlan = await createTeamService(teamConfig, resumedJournal, previousJournals).planTeam(teamConfig);
+    return describeTeamActions(summarizeTeamPlan(teamPlan));
+  });
+
+  const journal = openJournal('migrate');
+  if (journal) {
+    logger.info(`${options.resume ? 'Resuming from' : 'Writing'} journal: ${journal.path}`);
+  }
+  
+  logger.info('==============================\n');
+
+  // Process each team
+  const results = await forEachTeam(confirmedTeams, async (teamConfig) => {
+    try {
+      logger.info(`Processing team ${teamConfig.teamId}`);
+      return await createTeamService(teamConfig, journal, previousJournals).migrateTeam(teamConfig);
+    } catch (error) {
+      logger.error(`Error migrating team ${teamConfig.teamId}`, { error });
+      return undefined;
+    }
+  });
+
+  printMigrationSummary(results);
+
+  writeReports('migrate', startedAt, results.map(createTeamReport));
+
+  printJournalHint(journal);
+
+  if (migrationOptions.dryRun) {
+    logger.info('\nThis was a DRY RUN. No actual changes were made.');
+    logger.info('To make actual changes, run with --no-dry-run option.');
+  }
+}
+
+// Write a migration plan without changing anything
+async function runPlan(output: string) {
+  const planPath = output || defaultPlanPath('./plans');
+
+  logger.info('Planning Uniform SSO Migration');
+  logger.info('==============================');
+  logger.info(`API URL: ${apiUrl}`);
+  logger.info(`Teams to plan: ${teamConfigs.map(config => config.teamId).join(', ')}`);
+  logger.info(`Deprovisioning: ${describeDeprovisionStrategy(deprovision)}`);
+  logger.info(`Delete limit: ${describeDeleteLimit(migrationOptions)}`);
+  
+  printMemberOptions();
+  printTeamOptions(teamConfigs);
+  
+  logger.info('==============================\n');
+
+  const teams: TeamPlan[] = [];
+  const previousJournals = readPreviousJournals();
+  await preflightSafety(teamConfigs.map((teamConfig) => ({ teamConfig })), undefined, previousJournals);
+
+  // A partial plan can't be signed off, so any team that fails stops planning
+  for (const teamConfig of teamConfigs) {
+    teams.push(await createTeamService(teamConfig, undefined, previousJournals).planTeam(teamConfig));
+  }
+
+  const plan: MigrationPlan = {
+    version: MIGRATION_PLAN_VERSION,
+    createdAt: new Date().toISOString(),
+    apiUrl: apiUrl!,
+    markObsolete: migrationOptions.markObsolete,
+    deleteMembers: migrationOptions.deleteMembers,
+    deprovision: deprovision?.name ?? 'none',
+    ignoredEmails,
+    teams,
+  };
+
+  writePlan(plan, planPath);
+
+  logger.info('\n==============================');
+  logger.info('Plan Summary');
+  logger.info('==============================');
+
+  for (const team of teams) {
+    logger.info(`\nTeam: ${team.teamId}`);
+    logger.info(`- Members found: ${team.memberCount}`);
+    logger.info(`- Members skipped: ${team.skipped.length}`);
+    logger.info(`- Update requests: ${team.actions.filter((action) => action.update).length}`);
+    logger.info(`- Delete requests: ${team.actions.filter((action) => action.delete).length}`);
+    logger.info(`- Invite requests: ${team.actions.filter((action) => action.invite).length}`);
+
+    printSkippedMembers(team.skipped);
+    printUnmappedEmails(team.unmappedEmails);
+    printRemappedAccess(team.actions.flatMap((action) => (action.invite && action.remappedAccess ? [action.remappedAccess] : [])));
+  }
+
+  logger.info('==============================');
+  logger.info(`\nPlan written to: ${planPath}`);
+  logger.info(`After review, run it with: apply ${planPath} --no-dry-run`);
+}
+
+// Apply a reviewed migration plan
+async function runApply(planFile: string) {
+  const startedAt = new Date().toISOString();
+  const plan = readPlan(path.resolve(planFile));
+
+  logger.info('Applying Uniform SSO Migration Plan');
+  logger.info('===================================');
+  logger.info(`API URL: ${apiUrl}`);
+  logger.info(`Plan file: ${planFile}`);
+  logger.info(`Plan created at: ${plan.createdAt}`);
+  logger.info(`Teams in plan: ${plan.teams.map(team => team.teamId).join(', ')}`);
+  logger.info(`Deprovisioning: ${plan.deprovision ?? (plan.deleteMembers ? 'delete' : plan.markObsolete ? 'mark-obsolete' : 'none')}`);
+  logger.info(`Backup enabled: ${migrationOptions.backup.enabled}`);
+  logger.info(`Backup encryption: ${describeBackupEncryption()}`);
+  logger.info(`Delete limit: ${describeDeleteLimit(migrationOptions)}`);
+  logger.info(`Dry run: ${migrationOptions.dryRun}`);
+
+  const planTeams: { teamPlan: TeamPlan; teamConfig: TeamConfig }[] = [];
+  for (const teamPlan of plan.teams) {
+    const teamConfig = teamConfigs.find((config) => config.teamId === teamPlan.teamId);
+    if (!teamConfig) {
+      logger.error(`Error: No team configuration for team ${teamPlan.teamId} in the plan`);
+      process.exit(1);
+    }
+
+    const plannedApiUrl = teamPlan.apiUrl ?? plan.apiUrl;
+    const teamApiUrl = teamOptions.get(teamConfig.teamId)!.apiUrl;
+    if (plannedApiUrl !== teamApiUrl) {
+      logger.error(`Error: Team ${teamPlan.teamId} was planned against ${plannedApiUrl}, not ${teamApiUrl}`);
+      process.exit(1);
+    }
+
+    planTeams.push({ teamPlan, teamConfig });
+  }
+
+  printTeamOptions(planTeams.map(({ teamConfig }) => teamConfig));
+  logger.info('===================================\n');
+
+  requireBackupKey(planTeams.map(({ teamConfig }) => teamConfig));
+
+  await preflightApiKeys(planTeams.map(({ teamConfig }) => teamConfig));
+
+  // An applied plan is journaled like a migration, so it can be resumed and rolled back
+  const previousJournals = readPreviousJournals();
+  const resumedJournal = options.resume ? MigrationJournal.resume(options.resume, 'migrate') : undefined;
+
+  // Check every team before changing any, so a drifted team doesn't leave
+  // the plan half applied
+  const staleTeams: string[] = [];
+  for (const { teamPlan, teamConfig } of planTeams) {
+    const reason = await createTeamService(teamConfig, resumedJournal, previousJournals).checkPlanIsCurrent(teamPlan, teamConfig);
+    if (reason) {
+      staleTeams.push(reason);
+    }
+  }
+
+  if (staleTeams.length > 0) {
+    logger.error('Refusing to apply plan:');
+    staleTeams.forEach((reason) => logger.error(`- ${reason}`));
+    logger.error('Create a new plan and review it again.');
+    process.exit(1);
+  }
+
+  await preflightSafety(planTeams, resumedJournal, previousJournals);
+
+  const confirmedTeams = await confirmTeams(
+    planTeams.map(({ teamPlan, teamConfig }) => ({ teamId: teamConfig.teamId, teamPlan, teamConfig })),
+    ({ teamPlan }) => describeTeamActions(summarizeTeamPlan(teamPlan))
+  );
+
+  const journal = openJournal('migrate');
+  if (journal) {
+    logger.info(`${options.resume ? 'Resuming from' : 'Writing'} journal: ${journal.path}`);
+  }
+
+  const results = await forEachTeam(
+    confirmedTeams,
+    async ({ teamPlan, teamConfig }) => {
+      try {
+        return await createTeamService(teamConfig, journal, previousJournals).applyTeamPlan(teamPlan, teamConfig);
+      } catch (error) {
+        logger.error(`Error applying plan for team ${teamConfig.teamId}`, { error });
+        return undefined;
+      }
+    }
+  );
+
+  printMigrationSummary(results);
+
+  writeReports('apply', startedAt, results.map(createTeamReport));
+
+  printJournalHint(journal);
+
+  if (migrationOptions.dryRun) {
+    logger.info('\nThis was a DRY RUN. No actual changes were made.');
+    logger.info('To make actual changes, run with --no-dry-run option.');
+  }
+}
+
+// Roll back the changes of a migration run
+async function runRollback(journalFile: string) {
+  const startedAt = new Date().toISOString();
+  const journal = MigrationJournal.resume(journalFile, 'migrate');
+  const journalTeamIds = journal.getTeamIds();
+
+  logger.info('Rolling Back Uniform SSO Migration');
+  logger.info('==================================');
+  logger.info(`API URL: ${apiUrl}`);
+  logger.info(`Journal: ${journal.path}`);
+  logger.info(`Teams in journal: ${journalTeamIds.join(', ') || 'None'}`);
+  logger.info(`Dry run: ${migrationOptions.dryRun}`);
+
+  const rollbackTeams: TeamConfig[] = [];
+  for (const teamId of journalTeamIds) {
+    const teamConfig = teamConfigs.find((config) => config.teamId === teamId);
+    if (!teamConfig) {
+      logger.error(`Error: No team configuration for team ${teamId} in the journal`);
+      process.exit(1);
+    }
+    rollbackTeams.push(teamConfig);
+  }
+
+  printTeamOptions(rollbackTeams);
+  logger.info('==================================\n');
+
+  await preflightApiKeys(rollbackTeams);
+
+  const confirmedTeams = await confirmTeams(rollbackTeams, () => [`Roll back the changes recorded in ${journal.path}`]);
+
+  const results: RollbackResult[] = await forEachTeam(confirmedTeams, async (teamConfig) => {
+    try {
+      return await createTeamService(teamConfig).rollbackTeam(journal, teamConfig);
+    } catch (error) {
+      logger.error(`Error rolling back team ${teamConfig.teamId}`, { error });
+      return undefined;
+    }
+  });
+
+  logger.info('\n==============================');
+  logger.info('Rollback Summary');
+  logger.info('==============================');
+
+  for (const result of results) {
+    logger.info(`\nTeam: ${result.teamId}`);
+    logger.info(`- Members renamed back: ${result.membersRenamedBack}`);
+    logger.info(`- Invited members removed: ${result.invitationsRemoved}`);
+    logger.info(`- Deleted members re-created: ${result.membersRecreated}`);
+    logger.info(`- Errors: ${result.errors.length}`);
+
+    if (result.members.length > 0) {
+      logger.info('\nSteps:');
+      result.members.forEach((outcome) => {
+        const details = outcome.error ?? outcome.reason;
+        logger.info(`  - ${outcome.action} ${outcome.targetEmail ?? outcome.email}: ${outcome.status}${details ? ` (${details})` : ''}`);
+      });
+    }
+
+    if (result.errors.length > 0) {
+      logger.info('\nErrors:');
+      result.errors.forEach((error, index) => {
+        logger.info(`  ${index + 1}. ${error}`);
+      });
+    }
+  }
+
+  logger.info('==============================');
+
+  writeReports(
+    'rollback',
+    startedAt,
+    results.map((result) => ({
+      teamId: result.teamId,
+      counts: {
+        membersRenamedBack: result.membersRenamedBack,
+        invitationsRemoved: result.invitationsRemoved,
+        membersRecreated: result.membersRecreated,
+        errors: result.errors.length,
+      },
+      members: result.members,
+      errors: result.errors,
+    }))
+  );
+
+  if (migrationOptions.dryRun) {
+    logger.info('\nThis was a DRY RUN. No actual changes were made.');
+    logger.info('To make actual changes, run with --no-dry-run option.');
+  }
+}
+
+// Verify a migration against the backup taken before it
+async function runVerify(backupFile: string) {
+  const { backupTeamId, teams } = selectBackupTeams(backupFile);
+
+  logger.info('Verifying Uniform SSO Migration');
+  logger.info('===============================');
+  logger.info(`API URL: ${apiUrl}`);
+  logger.info(`Backup file: ${backupFile}`);
+  logger.info(`Backup team: ${backupTeamId || 'unknown'}`);
+  logger.info(`Teams to verify: ${teams.map(config => config.teamId).join(', ')}`);
+
+  printMemberOptions();
+  printTeamOptions(teams);
+
+  logger.info('===============================\n');
+
+  const results = await forEachTeam(teams, async (teamConfig) => {
+    try {
+      return await createTeamService(teamConfig).verifyTeam(backupFile, teamConfig);
+    } catch (error) {
+      logger.error(`Error verifying team ${teamConfig.teamId}`, { error });
+      return undefined;
+    }
+  });
+
+  logger.info('\n==============================');
+  logger.info('Verification Summary');
+  logger.info('==============================');
+
+  let drift = results.length < teams.length;
+
+  for (const result of results) {
+    logger.info(`\nTeam: ${result.teamId}`);
+    logger.info(`- Members verified: ${result.membersVerified}`);
+    logger.info(`- Members skipped: ${result.skipped.length}`);
+    logger.info(`- Members without a new account: ${result.missing.length}`);
+    logger.info(`- Members with different access: ${result.drifted.length}`);
+    logger.info(`- Obsolete accounts left: ${result.obsoleteAccounts.length}`);
+    logger.info(`- Errors: ${result.errors.length}`);
+
+    if (result.missing.length > 0) {
+      logger.info('\nWithout a new account:');
+      result.missing.forEach((email) => logger.info(`  - ${email}`));
+    }
+
+    if (result.drifted.length > 0) {
+      logger.info('\nWith different access:');
+      result.drifted.forEach(({ email, newEmail, lost, gained }) => {
+        logger.info(`  - ${email}${newEmail !== email ? ` (now ${newEmail})` : ''}`);
+        if (lost.length > 0) {
+          logger.info(`      lost: ${lost.join(', ')}`);
+        }
+        if (gained.length > 0) {
+          logger.info(`      gained: ${gained.join(', ')}`);
+        }
+      });
+    }
+
+    if (result.obsoleteAccounts.length > 0) {
+      logger.info(`\nObsolete accounts left${result.obsoleteAccountsFail ? '' : ' (kept by the deprovisioning strategy)'}:`);
+      result.obsoleteAccounts.forEach((email) => logger.info(`  - ${email}`));
+    }
+
+    if (result.errors.length > 0) {
+      logger.info('\nErrors:');
+      result.errors.forEach((error, index) => {
+        logger.info(`  ${index + 1}. ${error}`);
+      });
+    }
+
+    drift = drift || !result.passed;
+  }
+
+  logger.info('==============================');
+
+  if (drift) {
+    logger.error('\nVerification failed: the team does not match the backup');
+    process.exitCode = 1;
+  } else {
+    logger.info('\nVerification passed');
+  }
+}
+
+// Run the migration or restore and handle errors
+run()
+  .finally(() => prompt?.close())
+  .catch((error) => {
+    logger.error('Operation failed', { error });
+    process.exit(1);
+  });
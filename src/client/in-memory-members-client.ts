@@ -0,0 +1,269 @@
+import * as http from 'http';
+import {
+  ApiResponse,
+  DeleteMemberRequest,
+  InviteMemberRequest,
+  InviteMemberResponse,
+  Member,
+  ProjectInvite,
+  ProjectRoles,
+  UpdateMemberRequest,
+} from '../types/uniform-api';
+import { MembersClient } from './members-client';
+
+export interface InMemoryTeam {
+  teamId: string;
+  /** The API keys accepted for the team */
+  apiKeys: string[];
+  members?: Member[];
+}
+
+export type MembersRequestMethod = 'get' | 'invite' | 'update' | 'delete';
+
+/** A request the in-memory client answered, with the status it answered */
+export interface MembersRequest {
+  method: MembersRequestMethod;
+  teamId: string;
+  /** The member the request concerns; undefined for reads */
+  email?: string;
+  subject?: string;
+  status: number;
+}
+
+export interface InMemoryMembersClientOptions {
+  /** Recorded in backups; defaults to memory://uniform */
+  baseUrl?: string;
+  teams?: InMemoryTeam[];
+  /**
+   * Called for every authorized request before it is applied; returning a
+   * status answers the request with it instead, e.g. to fail a member's invitation
+   */
+  fail?: (request: MembersRequest) => number | undefined;
+}
+
+class RequestError extends Error {
+  constructor(
+    readonly status: number,
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * Answers the /members requests from teams held in memory, the way the
+ * Uniform API does: API keys are checked against each team's keys, invitations
+ * add a member with a new subject, and updates and deletes change the member
+ * with the given subject. Errors resolve to responses with the API's status,
+ * like UniformClient's.
+ */
+export class InMemoryMembersClient implements MembersClient {
+  readonly baseUrl: string;
+  /** Every request answered, in order */
+  readonly requests: MembersRequest[] = [];
+  private readonly teams = new Map<string, { apiKeys: Set<string>; members: Member[] }>();
+  private readonly fail?: (request: MembersRequest) => number | undefined;
+  private nextSubject = 1;
+
+  constructor(options: InMemoryMembersClientOptions = {}) {
+    this.baseUrl = options.baseUrl || 'memory://uniform';
+    this.fail = options.fail;
+    for (const team of options.teams || []) {
+      this.addTeam(team);
+    }
+  }
+
+  /**
+   * Add a team, replacing any team with the same ID
+   * @param team The team, its API keys and its members
+   */
+  addTeam(team: InMemoryTeam): void {
+    this.teams.set(team.teamId, {
+      apiKeys: new Set(team.apiKeys),
+      members: (team.members || []).map((member) => structuredClone(member)),
+    });
+  }
+
+  /**
+   * Check whether a team exists
+   * @param teamId The team ID
+   * @returns True if the team was added
+   */
+  hasTeam(teamId: string): boolean {
+    return this.teams.has(teamId);
+  }
+
+  /**
+   * Get a copy of a team's current members, of every type
+   * @param teamId The team ID
+   * @returns The members
+   */
+  getTeamMembers(teamId: string): Member[] {
+    const team = this.teams.get(teamId);
+    if (!team) {
+      throw new Error(`No in-memory team ${teamId}`);
+    }
+    return structuredClone(team.members);
+  }
+
+  /**
+   * Get the members of a team, like the API does for type=member
+   * @param teamId The team ID
+   * @param apiKey The API key for the team
+   * @param _includeMetadata Ignored; members are always returned in full
+   * @returns A list of members
+   */
+  async getMembers(teamId: string, apiKey: string, _includeMetadata = true): Promise<ApiResponse<Member[]>> {
+    const response = this.answer({ method: 'get', teamId, status: 200 }, apiKey, (team) =>
+      structuredClone(team.members.filter((member) => member.type === 'member'))
+    );
+    return { ...response, data: Array.isArray(response.data) ? response.data : [] };
+  }
+
+  /**
+   * Add the member an invitation creates
+   * @param request The invitation request
+   * @param apiKey The API key for the team
+   * @returns The response, with the subject of the new member
+   */
+  async inviteMember(request: InviteMemberRequest, apiKey: string): Promise<ApiResponse<InviteMemberResponse>> {
+    return this.answer({ method: 'invite', teamId: request.teamId, email: request.email, status: 200 }, apiKey, (team) => {
+      if (!request.email || typeof request.isAdmin !== 'boolean' || !Array.isArray(request.projects)) {
+        throw new RequestError(400, 'An invitation needs an email, isAdmin and projects');
+      }
+
+      const member: Member = {
+        subject: `invited|${this.nextSubject++}`,
+        name: request.name || request.email,
+        email: request.email,
+        isTeamAdmin: request.isAdmin,
+        projects: toProjectRoles(request.projects),
+        type: 'member',
+        memberSince: new Date().toISOString(),
+      };
+      team.members.push(member);
+      return { subject: member.subject };
+    });
+  }
+
+  /**
+   * Update the name, admin flag or projects of a member
+   * @param request The update request
+   * @param apiKey The API key for the team
+   * @returns The response
+   */
+  async updateMember(request: UpdateMemberRequest, apiKey: string): Promise<ApiResponse<any>> {
+    return this.answer(
+      { method: 'update', teamId: request.teamId, subject: request.identity_subject, status: 200 },
+      apiKey,
+      (_team, member) => {
+        if (request.name !== undefined) member!.name = request.name;
+        if (request.isAdmin !== undefined) member!.isTeamAdmin = request.isAdmin;
+        if (request.projects !== undefined) member!.projects = toProjectRoles(request.projects);
+        return {};
+      }
+    );
+  }
+
+  /**
+   * Remove a member from a team
+   * @param request The delete request
+   * @param apiKey The API key for the team
+   * @returns The response
+   */
+  async deleteMember(request: DeleteMemberRequest, apiKey: string): Promise<ApiResponse<any>> {
+    return this.answer(
+      { method: 'delete', teamId: request.teamId, subject: request.subject, status: 200 },
+      apiKey,
+      (team, member) => {
+        team.members = team.members.filter((other) => other !== member);
+        return {};
+      }
+    );
+  }
+
+  /**
+   * Authorize a request, find the member it concerns and apply it, recording
+   * the status it was answered with
+   * @param request The request to record
+   * @param apiKey The API key the request was sent with
+   * @param apply Applies the request and returns the response body
+   * @returns The response
+   */
+  private answer<T>(
+    request: MembersRequest,
+    apiKey: string,
+    apply: (team: { members: Member[] }, member?: Member) => T
+  ): ApiResponse<T | { message: string }> {
+    let status = 200;
+    let data: T | { message: string };
+
+    try {
+      const team = this.authorize(request.teamId, apiKey);
+      let member: Member | undefined;
+
+      if (request.subject !== undefined) {
+        member = team.members.find((candidate) => candidate.subject === request.subject);
+        if (!member) {
+          throw new RequestError(404, `No member ${request.subject}`);
+        }
+        request.email = member.email;
+      }
+
+      const failure = this.fail?.(request);
+      if (failure !== undefined) {
+        throw new RequestError(failure, `Request for ${request.email ?? `team ${request.teamId}`} failed`);
+      }
+
+      data = apply(team, member);
+    } catch (error) {
+      if (!(error instanceof RequestError)) {
+        throw error;
+      }
+      status = error.status;
+      data = { message: error.message };
+    }
+
+    request.status = status;
+    this.requests.push(request);
+    return { data, status, statusText: http.STATUS_CODES[status] || 'Unknown Error' };
+  }
+
+  /**
+   * Check the API key against the team's keys
+   * @param teamId The team the request is for
+   * @param apiKey The API key
+   * @returns The team
+   */
+  private authorize(teamId: string, apiKey: string): { members: Member[] } {
+    if (!apiKey) {
+      throw new RequestError(401, 'Missing x-api-key header');
+    }
+    if (!teamId) {
+      throw new RequestError(400, 'Missing teamId');
+    }
+
+    const team = this.teams.get(teamId);
+    if (!team || !team.apiKeys.has(apiKey)) {
+      throw new RequestError(403, `API key has no access to team ${teamId}`);
+    }
+    return team;
+  }
+}
+
+/**
+ * Convert the projects of an invitation or update to a member's project roles
+ * @param projects The projects
+ * @returns The project roles by project ID
+ */
+function toProjectRoles(projects: ProjectInvite[]): Record<string, ProjectRoles> {
+  return Object.fromEntries(
+    projects.map((project) => [
+      project.projectId,
+      {
+        roles: project.roles || [],
+        ...(project.useCustom ? { customPermissions: project.permissions || [] } : {}),
+      },
+    ])
+  );
+}
@@ -0,0 +1,68 @@
+import {
+  ApiResponse,
+  DeleteMemberRequest,
+  InviteMemberRequest,
+  InviteMemberResponse,
+  Member,
+  ProjectInvite,
+  UpdateMemberRequest,
+} from '../types/uniform-api';
+
+/**
+ * The /members requests the migration sends. UniformClient sends them to the
+ * Uniform API; InMemoryMembersClient answers them from memory, for tests.
+ *
+ * Requests the API answers with an error status resolve to a response with
+ * that status; only failures without a response, like network errors, reject.
+ */
+export interface MembersClient {
+  /** Where the members live; recorded in backups */
+  readonly baseUrl: string;
+
+  /**
+   * Get all members for a team
+   * @param teamId The team ID
+   * @param apiKey The API key for the team
+   * @param includeMetadata Whether to include metadata
+   * @returns A list of members
+   */
+  getMembers(teamId: string, apiKey: string, includeMetadata?: boolean): Promise<ApiResponse<Member[]>>;
+
+  /**
+   * Invite a new member to a team
+   * @param request The invitation request
+   * @param apiKey The API key for the team
+   * @returns The API response
+   */
+  inviteMember(request: InviteMemberRequest, apiKey: string): Promise<ApiResponse<InviteMemberResponse>>;
+
+  /**
+   * Update an existing member
+   * @param request The update request
+   * @param apiKey The API key for the team
+   * @returns The API response
+   */
+  updateMember(request: UpdateMemberRequest, apiKey: string): Promise<ApiResponse<any>>;
+
+  /**
+   * Delete a member from a team
+   * @param request The delete request
+   * @param apiKey The API key for the team
+   * @returns The API response
+   */
+  deleteMember(request: DeleteMemberRequest, apiKey: string): Promise<ApiResponse<any>>;
+}
+
+/**
+ * Convert a member's project roles to the format needed for invitations
+ * @param member The member
+ * @returns An array of project invites
+ */
+export function convertMemberProjectsToInvites(member: Member): ProjectInvite[] {
+  return Object.entries(member.projects).map(([projectId, projectRoles]) => ({
+    projectId,
+    roles: projectRoles.roles,
+    permissions: projectRoles.customPermissions,
+    useCustom: !!projectRoles.customPermissions?.length,
+  }));
+}
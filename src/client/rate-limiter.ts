@@ -0,0 +1,39 @@
+/**
+ * Spaces out requests so that no more than a fixed number start per second.
+ *
+ * Slots are handed out synchronously, so concurrent callers each get their own
+ * slot and never start at the same time.
+ */
+export class RateLimiter {
+  private readonly intervalMs: number;
+  private nextSlot = 0;
+
+  /**
+   * @param requestsPerSecond Maximum number of requests to start per second; 0 disables limiting
+   */
+  constructor(requestsPerSecond: number) {
+    this.intervalMs = requestsPerSecond > 0 ? 1000 / requestsPerSecond : 0;
+  }
+
+  /**
+   * Wait until the next request may start
+   */
+  async acquire(): Promise<void> {
+    const now = Date.now();
+    const slot = Math.max(now, this.nextSlot);
+    this.nextSlot = slot + this.intervalMs;
+
+    if (slot > now) {
+      await new Promise((resolve) => setTimeout(resolve, slot - now));
+    }
+  }
+
+  /**
+   * Hold back every request that has not started yet, e.g. after the API
+   * answered with 429 and a Retry-After header
+   * @param delayMs How long to hold back requests for
+   */
+  pause(delayMs: number): void {
+    this.nextSlot = Math.max(this.nextSlot, Date.now() + delayMs);
+  }
+}
@@ -1,19 +1,50 @@
-import axios, { AxiosInstance, AxiosRequestConfig, AxiosError, AxiosResponse } from 'axios';
+import axios, { AxiosInstance, AxiosRequestConfig, AxiosError, AxiosResponse, Method } from 'axios';
+import { convertMemberProjectsToInvites, MembersClient } from './members-client';
+import { RateLimiter } from './rate-limiter';
+import { defaultLogger, Logger } from '../services/logger';
 import {
   ApiResponse,
   DeleteMemberRequest,
   GetMembersResponse,
   InviteMemberRequest,
+  InviteMemberResponse,
   Member,
   ProjectInvite,
   UpdateMemberRequest,
 } from '../types/uniform-api';
 
-export class UniformClient {
+export interface RetryPolicy {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  retryableStatuses: number[];
+}
+
+export interface UniformClientOptions {
+  retry?: Partial<RetryPolicy>;
+  requestsPerSecond?: number;
+  logger?: Logger;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 30000,
+  retryableStatuses: [429, 500, 502, 503, 504],
+};
+
+// Network errors raised before the request reached the API, so even a
+// non-idempotent request can safely be sent again
+const NOT_SENT_ERROR_CODES = ['ECONNREFUSED', 'ENOTFOUND', 'EAI_AGAIN'];
+
+export class UniformClient implements MembersClient {
   private client: AxiosInstance;
-  private baseUrl: string;
+  readonly baseUrl: string;
+  private retryPolicy: RetryPolicy;
+  private rateLimiter: RateLimiter;
+  private logger: Logger;
 
-  constructor(baseUrl: string) {
+  constructor(baseUrl: string, options: UniformClientOptions = {}) {
     this.baseUrl = baseUrl;
     this.client = axios.create({
       baseURL: baseUrl,
@@ -21,6 +52,9 @@ export class UniformClient {
         'Content-Type': 'application/json',
       },
     });
+    this.retryPolicy = { ...DEFAULT_RETRY_POLICY, ...options.retry };
+    this.rateLimiter = new RateLimiter(options.requestsPerSecond ?? 0);
+    this.logger = options.logger || defaultLogger;
   }
 
   /**
@@ -43,7 +77,7 @@ export class UniformClient {
     };
 
     try {
-      const response = await this.client.get<GetMembersResponse>('/members', config);
+      const response = await this.send<GetMembersResponse>('get', '/members', config);
       return {
         data: response.data.members,
         status: response.status,
@@ -68,9 +102,9 @@ export class UniformClient {
    * @param apiKey The API key for the team
    * @returns The API response
    */
-  async inviteMember(request: InviteMemberRequest, apiKey: string): Promise<ApiResponse<any>> {
+  async inviteMember(request: InviteMemberRequest, apiKey: string): Promise<ApiResponse<InviteMemberResponse>> {
     try {
-      console.log(`Making POST request to /members with data:`, JSON.stringify(request, null, 2));
+      this.logger.debug('Making POST request to /members', { request });
       
       const config: AxiosRequestConfig = {
         headers: {
@@ -78,9 +112,9 @@ export class UniformClient {
         },
       };
       
-      const response = await this.client.post('/members', request, config);
+      const response = await this.send('post', '/members', { ...config, data: request });
       
-      console.log(`Invite response status: ${response.status} ${response.statusText}`);
+      this.logger.debug(`Invite response status: ${response.status} ${response.statusText}`);
       
       return {
         data: response.data,
@@ -90,8 +124,8 @@ export class UniformClient {
     } catch (error: unknown) {
       const axiosError = error as AxiosError;
       if (axiosError.isAxiosError && axiosError.response) {
-        console.error(`Invite request failed with status: ${axiosError.response.status}`);
-        console.error(`Error response data:`, JSON.stringify(axiosError.response.data, null, 2));
+        this.logger.warn(`Invite request failed with status: ${axiosError.response.status}`);
+        this.logger.debug('Error response data', { data: axiosError.response.data });
         
         return {
           data: axiosError.response.data || {},
@@ -99,7 +133,7 @@ export class UniformClient {
           statusText: axiosError.response.statusText || 'Unknown Error',
         };
       }
-      console.error(`Unexpected error during invitation:`, error);
+      this.logger.error('Unexpected error during invitation', { error });
       throw error;
     }
   }
@@ -112,7 +146,7 @@ export class UniformClient {
    */
   async updateMember(request: UpdateMemberRequest, apiKey: string): Promise<ApiResponse<any>> {
     try {
-      console.log(`Making PATCH request to /members with data:`, JSON.stringify(request, null, 2));
+      this.logger.debug('Making PATCH request to /members', { request });
       
       const config: AxiosRequestConfig = {
         headers: {
@@ -120,9 +154,9 @@ export class UniformClient {
         },
       };
       
-      const response = await this.client.patch('/members', request, config);
+      const response = await this.send('patch', '/members', { ...config, data: request });
       
-      console.log(`Update response status: ${response.status} ${response.statusText}`);
+      this.logger.debug(`Update response status: ${response.status} ${response.statusText}`);
       
       return {
         data: response.data,
@@ -132,8 +166,8 @@ export class UniformClient {
     } catch (error: unknown) {
       const axiosError = error as AxiosError;
       if (axiosError.isAxiosError && axiosError.response) {
-        console.error(`Update request failed with status: ${axiosError.response.status}`);
-        console.error(`Error response data:`, JSON.stringify(axiosError.response.data, null, 2));
+        this.logger.warn(`Update request failed with status: ${axiosError.response.status}`);
+        this.logger.debug('Error response data', { data: axiosError.response.data });
         
         return {
           data: axiosError.response.data || {},
@@ -141,7 +175,7 @@ export class UniformClient {
           statusText: axiosError.response.statusText || 'Unknown Error',
         };
       }
-      console.error(`Unexpected error during update:`, error);
+      this.logger.error('Unexpected error during update', { error });
       throw error;
     }
   }
@@ -154,7 +188,7 @@ export class UniformClient {
    */
   async deleteMember(request: DeleteMemberRequest, apiKey: string): Promise<ApiResponse<any>> {
     try {
-      console.log(`Making DELETE request to /members with data:`, JSON.stringify(request, null, 2));
+      this.logger.debug('Making DELETE request to /members', { request });
       
       const config: AxiosRequestConfig = {
         headers: {
@@ -163,9 +197,9 @@ export class UniformClient {
         data: request,
       };
       
-      const response = await this.client.delete('/members', config);
+      const response = await this.send('delete', '/members', config);
       
-      console.log(`Delete response status: ${response.status} ${response.statusText}`);
+      this.logger.debug(`Delete response status: ${response.status} ${response.statusText}`);
       
       return {
         data: response.data,
@@ -175,8 +209,8 @@ export class UniformClient {
     } catch (error: unknown) {
       const axiosError = error as AxiosError;
       if (axiosError.isAxiosError && axiosError.response) {
-        console.error(`Delete request failed with status: ${axiosError.response.status}`);
-        console.error(`Error response data:`, JSON.stringify(axiosError.response.data, null, 2));
+        this.logger.warn(`Delete request failed with status: ${axiosError.response.status}`);
+        this.logger.debug('Error response data', { data: axiosError.response.data });
         
         return {
           data: axiosError.response.data || {},
@@ -184,22 +218,119 @@ export class UniformClient {
           statusText: axiosError.response.statusText || 'Unknown Error',
         };
       }
-      console.error(`Unexpected error during deletion:`, error);
+      this.logger.error('Unexpected error during deletion', { error });
       throw error;
     }
   }
 
+  /**
+   * Send a request through the rate limiter, retrying it with exponential
+   * backoff while the failure is retryable for the request's method.
+   *
+   * GET, PATCH and DELETE are idempotent and are retried on retryable statuses
+   * and network errors. POST creates invitations, so it is only retried when
+   * the API certainly did not process it: a 429, or a connection that was never
+   * established. A timed out POST is never repeated.
+   * @param method The HTTP method
+   * @param url The request URL
+   * @param config The request configuration
+   * @returns The API response of the last attempt
+   */
+  private async send<T = any>(method: Method, url: string, config: AxiosRequestConfig): Promise<AxiosResponse<T>> {
+    const { maxRetries } = this.retryPolicy;
+
+    for (let attempt = 0; ; attempt++) {
+      await this.rateLimiter.acquire();
+
+      try {
+        return await this.client.request<T>({ ...config, method, url });
+      } catch (error: unknown) {
+        const axiosError = error as AxiosError;
+        if (attempt >= maxRetries || !this.isRetryable(method, axiosError)) {
+          throw error;
+        }
+
+        const retryAfterMs = this.getRetryAfterMs(axiosError);
+        const delayMs = retryAfterMs ?? this.getBackoffDelayMs(attempt);
+        if (retryAfterMs !== undefined) {
+          this.rateLimiter.pause(retryAfterMs);
+        }
+
+        const reason = axiosError.response
+          ? `status ${axiosError.response.status}`
+          : axiosError.code || axiosError.message;
+        this.logger.warn(
+          `${method.toUpperCase()} ${url} failed with ${reason}, retrying in ${delayMs}ms (retry ${attempt + 1}/${maxRetries})`
+        );
+
+        await new Promise((resolve) => setTimeout(resolve, delayMs));
+      }
+    }
+  }
+
+  /**
+   * Check whether a failed request may be sent again
+   * @param method The HTTP method
+   * @param error The request error
+   * @returns True if the request is safe to retry
+   */
+  private isRetryable(method: Method, error: AxiosError): boolean {
+    if (!error.isAxiosError) {
+      return false;
+    }
+
+    const isPost = method.toLowerCase() === 'post';
+
+    if (error.response) {
+      const { status } = error.response;
+      return isPost ? status === 429 : this.retryPolicy.retryableStatuses.includes(status);
+    }
+
+    return isPost ? NOT_SENT_ERROR_CODES.includes(error.code || '') : true;
+  }
+
+  /**
+   * Read the Retry-After header of a 429 response
+   * @param error The request error
+   * @returns The delay the API asked for in milliseconds, if any
+   */
+  private getRetryAfterMs(error: AxiosError): number | undefined {
+    if (error.response?.status !== 429) {
+      return undefined;
+    }
+
+    const retryAfter = error.response.headers?.['retry-after'];
+    if (retryAfter === undefined || retryAfter === null) {
+      return undefined;
+    }
+
+    const seconds = Number(retryAfter);
+    if (!Number.isNaN(seconds)) {
+      return Math.max(0, seconds * 1000);
+    }
+
+    const date = Date.parse(String(retryAfter));
+    return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+  }
+
+  /**
+   * Compute the exponential backoff delay for a retry, with jitter so that
+   * concurrent requests don't retry in lockstep
+   * @param attempt The zero-based number of the attempt that failed
+   * @returns The delay in milliseconds
+   */
+  private getBackoffDelayMs(attempt: number): number {
+    const { baseDelayMs, maxDelayMs } = this.retryPolicy;
+    const ceiling = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+    return Math.round(ceiling / 2 + Math.random() * (ceiling / 2));
+  }
+
   /**
    * Convert a member's project roles to the format needed for invitations
    * @param member The member
    * @returns An array of project invites
    */
   convertMemberProjectsToInvites(member: Member): ProjectInvite[] {
-    return Object.entries(member.projects).map(([projectId, projectRoles]) => ({
-      projectId,
-      roles: projectRoles.roles,
-      permissions: projectRoles.customPermissions,
-      useCustom: !!projectRoles.customPermissions?.length,
-    }));
+    return convertMemberProjectsToInvites(member);
   }
-} 
\ No newline at end of file
+}
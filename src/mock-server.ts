@@ -0,0 +1,150 @@
+#!/usr/bin/env node
+import { Command } from 'commander';
+import { MockFaults, MockUniformServer } from './mock/uniform-mock-server';
+import { BackupKeySource, resolveBackupKey } from './services/backup-encryption';
+import { ConsoleLogger } from './services/logger';
+import { TOOL_VERSION } from './version';
+
+function collect(value: string, previous: string[]): string[] {
+  return [...previous, value];
+}
+
+const program = new Command();
+program
+  .name('uniform-mock-server')
+  .description('Serve an in-memory stand-in for the Uniform /members API, for rehearsing migrations offline')
+  .version(TOOL_VERSION)
+  .option('--port <port>', 'Port to listen on', process.env.MOCK_PORT || '4555')
+  .option('--host <host>', 'Host to listen on', '127.0.0.1')
+  .option('--api-key <key>', 'API key accepted for every team', process.env.MOCK_API_KEY || 'mock-api-key')
+  .option('--team <teamId>', 'Serve an empty team (repeatable)', collect, [] as string[])
+  .option('--seed <backup>', 'Serve a team with the members of a backup file (repeatable)', collect, [] as string[])
+  .option('--backup-key-env <name>', 'Environment variable holding the key to decrypt backups with')
+  .option('--backup-key-file <path>', 'File holding the key to decrypt backups with')
+  .option('--allow-unencrypted-backups', 'Read backups without encryption', false)
+  .option('--rate-limit-rate <share>', 'Share of requests, from 0 to 1, answered with 429')
+  .option('--retry-after <seconds>', 'Retry-After header of injected 429s')
+  .option('--server-error-rate <share>', 'Share of requests, from 0 to 1, answered with a server error')
+  .option('--server-error-status <status>', 'Status of injected server errors', '503')
+  .option('--latency <ms>', 'Delay before every response, in milliseconds, or a range like 50-200')
+  .option('--reject-emails <emails>', 'Reject invitations, updates and deletes concerning these emails (comma-separated)', '')
+  .option('--reject-status <status>', 'Status of rejected requests', '400')
+  .parse(process.argv);
+
+const options = program.opts();
+const logger = new ConsoleLogger({ level: 'info' });
+
+/**
+ * Parse a numeric option, exiting on values outside the range
+ * @param name The option name, for the error message
+ * @param value The option value
+ * @param min The smallest allowed value
+ * @param max The largest allowed value
+ * @returns The number, or undefined if the option wasn't given
+ */
+function parseNumber(name: string, value: string | undefined, min: number, max = Infinity): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  const number = Number(value);
+  if (!Number.isFinite(number) || number < min || number > max) {
+    logger.error(`Error: ${name} must be a number from ${min}${max === Infinity ? '' : ` to ${max}`}`);
+    process.exit(1);
+  }
+  return number;
+}
+
+/**
+ * Parse the latency option
+ * @param value A delay, or a range like 50-200
+ * @returns The latency, or undefined if the option wasn't given
+ */
+function parseLatency(value: string | undefined): MockFaults['latencyMs'] {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  const [min, max] = value.split('-').map((part) => parseNumber('--latency', part, 0)!);
+  if (max === undefined) {
+    return min;
+  }
+  if (max < min) {
+    logger.error('Error: --latency range must go from the smaller to the larger delay');
+    process.exit(1);
+  }
+  return [min, max];
+}
+
+const faults: MockFaults = {
+  rateLimitRate: parseNumber('--rate-limit-rate', options.rateLimitRate, 0, 1),
+  retryAfterSeconds: parseNumber('--retry-after', options.retryAfter, 0),
+  serverErrorRate: parseNumber('--server-error-rate', options.serverErrorRate, 0, 1),
+  serverErrorStatus: parseNumber('--server-error-status', options.serverErrorStatus, 500, 599),
+  latencyMs: parseLatency(options.latency),
+  rejectEmails: options.rejectEmails
+    .split(',')
+    .map((email: string) => email.trim())
+    .filter(Boolean),
+  rejectStatus: parseNumber('--reject-status', options.rejectStatus, 400, 599),
+};
+
+const backupKeySources: BackupKeySource[] = [
+  ...(options.backupKeyEnv ? [{ type: 'env' as const, name: options.backupKeyEnv }] : []),
+  ...(options.backupKeyFile ? [{ type: 'file' as const, path: options.backupKeyFile }] : []),
+];
+
+if (backupKeySources.length > 1) {
+  logger.error('Error: Use only one of --backup-key-env and --backup-key-file');
+  process.exit(1);
+}
+
+const server = new MockUniformServer({
+  faults,
+  onRequest: (request) =>
+    logger.info(
+      `${request.method} ${request.teamId ?? '-'}${request.email ? ` ${request.email}` : ''}: ${request.status}` +
+        (request.reason ? ` (${request.reason})` : '')
+    ),
+});
+
+try {
+  const key = backupKeySources.length === 1 ? resolveBackupKey(backupKeySources[0]) : undefined;
+
+  for (const teamId of options.team) {
+    server.addTeam({ teamId, apiKeys: [options.apiKey] });
+  }
+
+  for (const backupPath of options.seed) {
+    const teamId = server.seedFromBackup(backupPath, [options.apiKey], {
+      key,
+      allowUnencrypted: options.allowUnencryptedBackups,
+    });
+    logger.info(`Seeded team ${teamId} with ${server.getMembers(teamId).length} members from ${backupPath}`);
+  }
+} catch (error) {
+  logger.error(`Error seeding the mock server: ${error instanceof Error ? error.message : String(error)}`);
+  process.exit(1);
+}
+
+if (options.team.length === 0 && options.seed.length === 0) {
+  logger.error('Error: Pass at least one --team or --seed');
+  process.exit(1);
+}
+
+server
+  .start(Number(options.port), options.host)
+  .then((url) => {
+    logger.info(`Mock Uniform API listening on ${url}`);
+    logger.info(`Run the migration with UNIFORM_API_URL=${url} and API key "${options.apiKey}"`);
+
+    for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+      process.on(signal, () => {
+        server.stop().finally(() => process.exit(0));
+      });
+    }
+  })
+  .catch((error) => {
+    logger.error('Mock server failed to start', { error });
+    process.exit(1);
+  });
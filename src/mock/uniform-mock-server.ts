@@ -0,0 +1,414 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { InMemoryMembersClient, InMemoryTeam } from '../client/in-memory-members-client';
+import {
+  ApiResponse,
+  DeleteMemberRequest,
+  InviteMemberRequest,
+  Member,
+  ProjectInvite,
+  UpdateMemberRequest,
+} from '../types/uniform-api';
+import { BackupEncryptionOptions, getBackupTeamId, readBackup } from '../services/member-backup';
+
+/**
+ * Failures a mock server injects into the requests it receives
+ */
+export interface MockFaults {
+  /** Share of requests, from 0 to 1, answered with 429 Too Many Requests */
+  rateLimitRate?: number;
+  /** The Retry-After header of injected 429s, in seconds; left out if undefined */
+  retryAfterSeconds?: number;
+  /** Share of requests, from 0 to 1, answered with a server error */
+  serverErrorRate?: number;
+  /** The status of injected server errors; defaults to 503 */
+  serverErrorStatus?: number;
+  /** Delay before every response, in milliseconds: a fixed delay, or a range to pick from */
+  latencyMs?: number | [number, number];
+  /** Invitations, updates and deletes concerning these emails are rejected */
+  rejectEmails?: string[];
+  /** The status rejected requests get; defaults to 400 */
+  rejectStatus?: number;
+}
+
+export type MockTeam = InMemoryTeam;
+
+export interface MockUniformServerOptions {
+  teams?: MockTeam[];
+  faults?: MockFaults;
+  /** Source of randomness for fault rates and latency; defaults to Math.random */
+  random?: () => number;
+  /** Called after every request was answered */
+  onRequest?: (request: MockRequest) => void;
+}
+
+/** A request the mock server received, with the status it answered */
+export interface MockRequest {
+  method: string;
+  teamId?: string;
+  email?: string;
+  status: number;
+  /** Why the request failed, if it did: an injected fault or a validation error */
+  reason?: string;
+}
+
+type MockMethod = 'GET' | 'POST' | 'PATCH' | 'DELETE';
+
+type JsonObject = Record<string, unknown>;
+
+class MockError extends Error {
+  constructor(
+    readonly status: number,
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * A local stand-in for the Uniform /members API, serving the teams of an
+ * InMemoryMembersClient over HTTP. It implements the GET, POST, PATCH and
+ * DELETE requests UniformClient sends, with the same request and response
+ * shapes, checks the x-api-key header against each team's keys, and can inject
+ * rate limiting, server errors, latency and rejected emails. Requests are
+ * served on any path ending in /members, so the base URL may include a prefix
+ * such as /api/v1.
+ */
+export class MockUniformServer {
+  private readonly store: InMemoryMembersClient;
+  private readonly scriptedFailures: { method?: MockMethod; status: number }[] = [];
+  private readonly random: () => number;
+  private readonly onRequest?: (request: MockRequest) => void;
+  private server?: http.Server;
+  faults: MockFaults;
+  /** Every request received, in order */
+  readonly requests: MockRequest[] = [];
+
+  constructor(options: MockUniformServerOptions = {}) {
+    this.faults = options.faults || {};
+    this.random = options.random || Math.random;
+    this.onRequest = options.onRequest;
+    this.store = new InMemoryMembersClient({
+      teams: options.teams,
+      fail: (request) => (request.method !== 'get' && this.isRejected(request.email) ? this.faults.rejectStatus ?? 400 : undefined),
+    });
+  }
+
+  /**
+   * Add a team, replacing any team with the same ID
+   * @param team The team, its API keys and its members
+   */
+  addTeam(team: MockTeam): void {
+    this.store.addTeam(team);
+  }
+
+  /**
+   * Add a team with the members of a backup file
+   * @param filePath The backup file path
+   * @param apiKeys The API keys accepted for the team
+   * @param options The team ID, if the backup doesn't record it, and how to decrypt the backup
+   * @returns The ID of the seeded team
+   */
+  seedFromBackup(filePath: string, apiKeys: string[], options: BackupEncryptionOptions & { teamId?: string } = {}): string {
+    const contents = readBackup(filePath, options);
+    const teamId = options.teamId ?? getBackupTeamId(filePath, contents);
+    if (!teamId) {
+      throw new Error(`Backup file ${filePath} doesn't record its team; pass the team ID`);
+    }
+
+    this.addTeam({ teamId, apiKeys, members: contents.members });
+    return teamId;
+  }
+
+  /**
+   * Get a copy of a team's current members
+   * @param teamId The team ID
+   * @returns The members
+   */
+  getMembers(teamId: string): Member[] {
+    return this.store.getTeamMembers(teamId);
+  }
+
+  /**
+   * Fail the next requests with the given status, before any other fault
+   * @param status The status to answer with
+   * @param options The method to fail, any if left out, and how many requests to fail
+   */
+  failNext(status: number, options: { method?: MockMethod; count?: number } = {}): void {
+    for (let i = 0; i < (options.count ?? 1); i++) {
+      this.scriptedFailures.push({ method: options.method, status });
+    }
+  }
+
+  /**
+   * Start listening
+   * @param port The port; a free one is picked if left out
+   * @param host The host to listen on
+   * @returns The base URL of the server
+   */
+  async start(port = 0, host = '127.0.0.1'): Promise<string> {
+    const server = http.createServer((req, res) => {
+      this.handle(req, res).catch((error) => {
+        res.writeHead(500, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ message: error instanceof Error ? error.message : String(error) }));
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(port, host, () => resolve());
+    });
+
+    this.server = server;
+    const address = server.address() as AddressInfo;
+    return `http://${host}:${address.port}`;
+  }
+
+  /**
+   * Stop listening
+   */
+  async stop(): Promise<void> {
+    const server = this.server;
+    this.server = undefined;
+    if (server) {
+      const closed = new Promise<void>((resolve, reject) => server.close((error) => (error ? reject(error) : resolve())));
+      // Keep-alive connections would hold the server open
+      server.closeAllConnections();
+      await closed;
+    }
+  }
+
+  /**
+   * Answer a single request
+   * @param req The request
+   * @param res The response
+   */
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const method = (req.method || 'GET').toUpperCase();
+    const url = new URL(req.url || '/', 'http://localhost');
+    const record: MockRequest = { method, status: 200 };
+
+    await this.delay();
+
+    let status: number;
+    let payload: unknown;
+    const headers: http.OutgoingHttpHeaders = { 'Content-Type': 'application/json' };
+
+    try {
+      if (!url.pathname.endsWith('/members') || !['GET', 'POST', 'PATCH', 'DELETE'].includes(method)) {
+        throw new MockError(404, `No route for ${method} ${url.pathname}`);
+      }
+
+      const body = method === 'GET' ? {} : await readJson(req);
+      const teamId = method === 'GET' ? url.searchParams.get('teamId') ?? undefined : optionalString(body.teamId);
+      record.teamId = teamId;
+      record.email = optionalString(body.email) ?? this.findEmail(teamId, optionalString(body.identity_subject ?? body.subject));
+
+      this.injectFault(method as MockMethod, headers);
+      const response = await this.route(method as MockMethod, String(req.headers['x-api-key'] ?? ''), teamId ?? '', body);
+      status = response.status;
+      payload = status === 200 && method === 'GET' ? { members: response.data } : response.data;
+      if (status !== 200) {
+        record.reason = errorMessage(response.data);
+      }
+    } catch (error) {
+      if (!(error instanceof MockError)) {
+        throw error;
+      }
+      status = error.status;
+      payload = { message: error.message };
+      record.reason = error.message;
+    }
+
+    record.status = status;
+    this.requests.push(record);
+    res.writeHead(status, headers);
+    res.end(JSON.stringify(payload));
+    this.onRequest?.(record);
+  }
+
+  /**
+   * Pass a request on to the in-memory client, with its body narrowed to the
+   * request of its method
+   * @returns The response
+   */
+  private route(method: MockMethod, apiKey: string, teamId: string, body: JsonObject): Promise<ApiResponse<unknown>> {
+    switch (method) {
+      case 'GET':
+        return this.store.getMembers(teamId, apiKey);
+      case 'POST':
+        return this.store.inviteMember(toInviteRequest(teamId, body), apiKey);
+      case 'PATCH':
+        return this.store.updateMember(toUpdateRequest(teamId, body), apiKey);
+      case 'DELETE':
+        return this.store.deleteMember(toDeleteRequest(teamId, body), apiKey);
+    }
+  }
+
+  /**
+   * Answer with a scripted failure, an injected 429 or an injected server error
+   * @param method The request method
+   * @param headers The response headers, which get Retry-After for 429s
+   */
+  private injectFault(method: MockMethod, headers: http.OutgoingHttpHeaders): void {
+    const scripted = this.scriptedFailures.findIndex((failure) => !failure.method || failure.method === method);
+    if (scripted >= 0) {
+      const [failure] = this.scriptedFailures.splice(scripted, 1);
+      throw new MockError(failure.status, `Injected ${failure.status}`);
+    }
+
+    const { rateLimitRate, retryAfterSeconds, serverErrorRate, serverErrorStatus } = this.faults;
+    if (rateLimitRate && this.random() < rateLimitRate) {
+      if (retryAfterSeconds !== undefined) {
+        headers['Retry-After'] = String(retryAfterSeconds);
+      }
+      throw new MockError(429, 'Injected 429');
+    }
+    if (serverErrorRate && this.random() < serverErrorRate) {
+      throw new MockError(serverErrorStatus ?? 503, `Injected ${serverErrorStatus ?? 503}`);
+    }
+  }
+
+  /**
+   * Check whether requests concerning an email are rejected
+   * @param email The email the request concerns
+   * @returns True if the email is one of the rejected emails
+   */
+  private isRejected(email: string | undefined): boolean {
+    return !!email && !!this.faults.rejectEmails?.some((rejected) => rejected.toLowerCase() === email.toLowerCase());
+  }
+
+  /**
+   * Wait for the configured latency
+   */
+  private async delay(): Promise<void> {
+    const { latencyMs } = this.faults;
+    const ms = Array.isArray(latencyMs) ? latencyMs[0] + this.random() * (latencyMs[1] - latencyMs[0]) : latencyMs;
+    if (ms) {
+      await new Promise((resolve) => setTimeout(resolve, ms));
+    }
+  }
+
+  /**
+   * Find the email of the member a request concerns, for the request log
+   * @param teamId The team ID
+   * @param subject The member's subject
+   * @returns The email, if the member exists
+   */
+  private findEmail(teamId: string | undefined, subject: string | undefined): string | undefined {
+    if (!teamId || !subject || !this.store.hasTeam(teamId)) {
+      return undefined;
+    }
+    return this.store.getTeamMembers(teamId).find((member) => member.subject === subject)?.email;
+  }
+}
+
+/**
+ * Read a JSON request body
+ * @param req The request
+ * @returns The parsed body; an empty object if there is none
+ */
+async function readJson(req: http.IncomingMessage): Promise<JsonObject> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+
+  const text = Buffer.concat(chunks).toString('utf8');
+  if (!text) {
+    return {};
+  }
+
+  let body: unknown;
+  try {
+    body = JSON.parse(text);
+  } catch {
+    throw new MockError(400, 'Request body is not valid JSON');
+  }
+
+  if (!isObject(body)) {
+    throw new MockError(400, 'Request body is not a JSON object');
+  }
+  return body;
+}
+
+/**
+ * Narrow the body of a POST to an invitation
+ * @param teamId The team the request is for
+ * @param body The request body
+ * @returns The invitation request
+ */
+function toInviteRequest(teamId: string, body: JsonObject): InviteMemberRequest {
+  const { email, name, isAdmin, projects, sendEmail } = body;
+  if (typeof email !== 'string' || typeof isAdmin !== 'boolean' || !isProjectInvites(projects)) {
+    throw new MockError(400, 'An invitation needs an email, isAdmin and projects');
+  }
+  return { teamId, email, name: optionalString(name), isAdmin, projects, sendEmail: sendEmail !== false };
+}
+
+/**
+ * Narrow the body of a PATCH to a member update
+ * @param teamId The team the request is for
+ * @param body The request body
+ * @returns The update request
+ */
+function toUpdateRequest(teamId: string, body: JsonObject): UpdateMemberRequest {
+  const { identity_subject, name, isAdmin, projects } = body;
+  if (
+    typeof identity_subject !== 'string' ||
+    (name !== undefined && typeof name !== 'string') ||
+    (isAdmin !== undefined && typeof isAdmin !== 'boolean') ||
+    (projects !== undefined && !isProjectInvites(projects))
+  ) {
+    throw new MockError(400, 'An update needs an identity_subject, and a valid name, isAdmin and projects if it sets them');
+  }
+  return { identity_subject, teamId, name, isAdmin, projects };
+}
+
+/**
+ * Narrow the body of a DELETE to a member deletion
+ * @param teamId The team the request is for
+ * @param body The request body
+ * @returns The delete request
+ */
+function toDeleteRequest(teamId: string, body: JsonObject): DeleteMemberRequest {
+  if (typeof body.subject !== 'string') {
+    throw new MockError(400, 'A delete needs a subject');
+  }
+  return { teamId, subject: body.subject };
+}
+
+function isProjectInvites(value: unknown): value is ProjectInvite[] {
+  return (
+    Array.isArray(value) &&
+    value.every(
+      (project) =>
+        isObject(project) &&
+        typeof project.projectId === 'string' &&
+        isStringList(project.roles) &&
+        (project.permissions === undefined || isStringList(project.permissions)) &&
+        (project.useCustom === undefined || typeof project.useCustom === 'boolean')
+    )
+  );
+}
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isStringList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((entry) => typeof entry === 'string');
+}
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === 'string' ? value : undefined;
+}
+
+/**
+ * Get the message of an error response body
+ * @param data The response body
+ * @returns The message, if the body has one
+ */
+function errorMessage(data: unknown): string | undefined {
+  return isObject(data) ? optionalString(data.message) : undefined;
+}
@@ -0,0 +1,242 @@
+import { AccessRemapRules, Member, ProjectAccessRemap, ProjectRoles, UniformPermission } from '../types/uniform-api';
+import { describeAccessChanges } from './member-access';
+import * as fs from 'fs';
+import * as path from 'path';
+
+const RULES_KEYS: (keyof AccessRemapRules)[] = ['roles', 'dropPermissions', 'projects', 'standardRoles'];
+
+const PROJECT_KEYS: (keyof ProjectAccessRemap)[] = ['roles', 'replacePermissions', 'grantPermissions'];
+
+/**
+ * How the remap changed a member's access
+ */
+export interface RemappedAccess {
+  email: string;
+  subject: string;
+  /** The member's projects before the remap */
+  before: Record<string, ProjectRoles>;
+  /** The projects the member is invited with; projects left without access are removed */
+  after: Record<string, ProjectRoles>;
+  /** One description per changed project, role list or permission list */
+  changes: string[];
+}
+
+/**
+ * Changes the roles and custom permissions members are invited with.
+ *
+ * In every project of a member, roles are renamed, first by the project's own
+ * renames, then by the global ones. The project's replacements are applied to
+ * the member's custom permissions, the remaining dropped permissions removed,
+ * and the project's granted permissions added, also for members that only have
+ * roles there. Custom permissions that are exactly a standard role's
+ * permissions are then replaced by the role. A project whose custom
+ * permissions were all dropped keeps only its roles, and a project left with
+ * neither roles nor permissions is removed.
+ */
+export class AccessRemapper {
+  private readonly rules: AccessRemapRules;
+
+  /**
+   * @param rules The remap rules
+   * @param scope Where the rules come from, used in error messages
+   */
+  constructor(rules: AccessRemapRules, scope = 'access remap rules') {
+    AccessRemapper.validate(rules, scope);
+    this.rules = rules;
+  }
+
+  /**
+   * Load remap rules from a JSON file
+   * @param filePath Path to the remap file
+   * @returns The access remapper
+   */
+  static fromFile(filePath: string): AccessRemapper {
+    const resolvedPath = path.resolve(filePath);
+    if (!fs.existsSync(resolvedPath)) {
+      throw new Error(`Access remap file not found: ${resolvedPath}`);
+    }
+
+    return new AccessRemapper(JSON.parse(fs.readFileSync(resolvedPath, 'utf8')) as AccessRemapRules, resolvedPath);
+  }
+
+  /**
+   * Check that remap rules are well formed, and that no standard role or
+   * replacement uses a dropped permission
+   * @param rules The remap rules
+   * @param scope Where the rules come from, used in error messages
+   */
+  static validate(rules: AccessRemapRules, scope: string): void {
+    if (!rules || typeof rules !== 'object' || Array.isArray(rules)) {
+      throw new Error(`Access remap rules in ${scope} must be an object`);
+    }
+
+    for (const key of Object.keys(rules)) {
+      if (!RULES_KEYS.includes(key as keyof AccessRemapRules)) {
+        throw new Error(`Unknown access remap key "${key}" in ${scope}`);
+      }
+    }
+
+    checkStringMap(rules.roles, `"roles" in ${scope}`);
+    checkStringList(rules.dropPermissions, `"dropPermissions" in ${scope}`);
+    const dropped = new Set<string>(rules.dropPermissions || []);
+
+    for (const [projectId, project] of Object.entries(checkObject(rules.projects, `"projects" in ${scope}`))) {
+      const label = `project ${projectId} in ${scope}`;
+      checkObject(project, label);
+
+      for (const key of Object.keys(project)) {
+        if (!PROJECT_KEYS.includes(key as keyof ProjectAccessRemap)) {
+          throw new Error(`Unknown access remap key "${key}" in ${label}`);
+        }
+      }
+
+      checkStringMap(project.roles, `"roles" of ${label}`);
+      checkStringMap(project.replacePermissions, `"replacePermissions" of ${label}`);
+      checkStringList(project.grantPermissions, `"grantPermissions" of ${label}`);
+
+      const usesDropped = [...Object.values(project.replacePermissions || {}), ...(project.grantPermissions || [])].filter(
+        (permission) => dropped.has(permission)
+      );
+      if (usesDropped.length > 0) {
+        throw new Error(`${label} replaces or grants dropped permissions: ${usesDropped.join(', ')}`);
+      }
+    }
+
+    const roleKeys = new Map<string, string>();
+    for (const [role, permissions] of Object.entries(checkObject(rules.standardRoles, `"standardRoles" in ${scope}`))) {
+      const label = `standard role ${role} in ${scope}`;
+      checkStringList(permissions, label);
+
+      if (permissions.length === 0) {
+        throw new Error(`${label} has no permissions`);
+      }
+
+      const usesDropped = permissions.filter((permission) => dropped.has(permission));
+      if (usesDropped.length > 0) {
+        throw new Error(`${label} has dropped permissions: ${usesDropped.join(', ')}`);
+      }
+
+      // Two roles with the same permissions would make the conversion ambiguous
+      const key = permissionKey(permissions);
+      const existing = roleKeys.get(key);
+      if (existing) {
+        throw new Error(`Standard roles ${existing} and ${role} in ${scope} have the same permissions`);
+      }
+      roleKeys.set(key, role);
+    }
+  }
+
+  /**
+   * Get the projects a member is invited with
+   * @param member The member
+   * @returns The remapped projects
+   */
+  remapProjects(member: Pick<Member, 'projects'>): Record<string, ProjectRoles> {
+    const projects: Record<string, ProjectRoles> = {};
+    for (const [projectId, project] of Object.entries(member.projects)) {
+      const remapped = this.remapProject(projectId, project);
+      if (remapped) {
+        projects[projectId] = remapped;
+      }
+    }
+    return projects;
+  }
+
+  /**
+   * Remap a member's access and describe what changed
+   * @param member The member
+   * @returns How the access changed, or undefined if the remap changed nothing
+   */
+  remap(member: Pick<Member, 'email' | 'subject' | 'isTeamAdmin' | 'projects'>): RemappedAccess | undefined {
+    const after = this.remapProjects(member);
+    const changes = describeAccessChanges(member, { isTeamAdmin: member.isTeamAdmin, projects: after });
+    if (changes.length === 0) {
+      return undefined;
+    }
+
+    return { email: member.email, subject: member.subject, before: member.projects, after, changes };
+  }
+
+  /**
+   * Describe the rules for the run header
+   * @returns A short description
+   */
+  describe(): string {
+    const { roles, dropPermissions, projects, standardRoles } = this.rules;
+    const parts = [
+      `${Object.keys(roles || {}).length} role renames`,
+      `dropped permissions: ${dropPermissions?.join(', ') || 'none'}`,
+      `rules for projects: ${Object.keys(projects || {}).join(', ') || 'none'}`,
+      `standard roles: ${Object.keys(standardRoles || {}).join(', ') || 'none'}`,
+    ];
+    return parts.join('; ');
+  }
+
+  /**
+   * Remap the roles and custom permissions of a single project
+   * @param projectId The project ID
+   * @param project The member's roles and permissions in the project
+   * @returns The remapped roles and permissions, or undefined if the member has no access left there
+   */
+  private remapProject(projectId: string, project: ProjectRoles): ProjectRoles | undefined {
+    const projectRules = this.rules.projects?.[projectId] || {};
+    const roles = unique(project.roles.map((role) => projectRules.roles?.[role] ?? this.rules.roles?.[role] ?? role));
+    const { customPermissions, ...rest } = project;
+
+    const dropped = new Set<string>(this.rules.dropPermissions || []);
+    const permissions = unique([
+      ...(customPermissions || [])
+        .map((permission) => projectRules.replacePermissions?.[permission] ?? permission)
+        .filter((permission) => !dropped.has(permission)),
+      ...(projectRules.grantPermissions || []),
+    ]);
+
+    if (permissions.length === 0) {
+      return roles.length > 0 ? { ...rest, roles } : undefined;
+    }
+
+    const key = permissionKey(permissions);
+    const standardRole = Object.entries(this.rules.standardRoles || {}).find(
+      ([, rolePermissions]) => permissionKey(rolePermissions) === key
+    )?.[0];
+
+    return standardRole
+      ? { ...rest, roles: unique([...roles, standardRole]) }
+      : { ...rest, roles, customPermissions: permissions };
+  }
+}
+
+function unique<T>(values: T[]): T[] {
+  return [...new Set(values)];
+}
+
+/**
+ * Key a set of permissions independently of their order
+ * @param permissions The permissions
+ * @returns The key
+ */
+function permissionKey(permissions: UniformPermission[]): string {
+  return unique(permissions).sort().join(',');
+}
+
+function checkObject<T extends object>(value: T | undefined, label: string): T | Record<string, never> {
+  if (value === undefined) {
+    return {};
+  }
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error(`${label} must be an object`);
+  }
+  return value;
+}
+
+function checkStringMap(value: Record<string, unknown> | undefined, label: string): void {
+  if (Object.values(checkObject(value, label)).some((entry) => typeof entry !== 'string' || !entry)) {
+    throw new Error(`${label} must map names to non-empty strings`);
+  }
+}
+
+function checkStringList(value: unknown, label: string): void {
+  if (value !== undefined && (!Array.isArray(value) || value.some((entry) => typeof entry !== 'string' || !entry))) {
+    throw new Error(`${label} must be an array of strings`);
+  }
+}
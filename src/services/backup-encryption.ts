@@ -0,0 +1,135 @@
+import { BackupKey } from '../types/uniform-api';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+
+export type BackupKeySource =
+  | { type: 'passphrase'; passphrase: string }
+  | { type: 'env'; name: string }
+  | { type: 'file'; path: string };
+
+export interface BackupEncryption {
+  algorithm: 'aes-256-gcm';
+  kdf: 'scrypt';
+  kdfParams: { N: number; r: number; p: number };
+  keySource: string;
+  salt: string;
+  iv: string;
+  authTag: string;
+}
+
+const KDF_PARAMS = { N: 16384, r: 8, p: 1 };
+
+const KEY_LENGTH = 32;
+
+/**
+ * Resolve the secret a backup key is derived from
+ * @param source Where the secret comes from
+ * @returns The backup key, with a description of its source that is safe to record
+ */
+export function resolveBackupKey(source: BackupKeySource): BackupKey {
+  let secret: string | undefined;
+  let description: string;
+
+  switch (source.type) {
+    case 'passphrase':
+      secret = source.passphrase;
+      description = 'passphrase';
+      break;
+    case 'env':
+      secret = process.env[source.name];
+      description = `env:${source.name}`;
+      if (secret === undefined) {
+        throw new Error(`Backup key environment variable ${source.name} is not set`);
+      }
+      break;
+    case 'file': {
+      const keyPath = path.resolve(source.path);
+      if (!fs.existsSync(keyPath)) {
+        throw new Error(`Backup key file not found: ${keyPath}`);
+      }
+      secret = fs.readFileSync(keyPath, 'utf8').trim();
+      description = `file:${keyPath}`;
+      break;
+    }
+  }
+
+  if (!secret) {
+    throw new Error(`Backup key from ${description} is empty`);
+  }
+
+  return { source: description, secret };
+}
+
+/**
+ * Encrypt a backup payload with AES-256-GCM, using a key derived from the
+ * backup key with scrypt and a random salt
+ * @param plaintext The payload to encrypt
+ * @param key The backup key
+ * @param associatedData Data that isn't encrypted but must not be changed, e.g. the backup metadata
+ * @returns The encryption parameters and the base64 encoded ciphertext
+ */
+export function encryptPayload(
+  plaintext: string,
+  key: BackupKey,
+  associatedData: (encryption: Omit<BackupEncryption, 'authTag'>) => string
+): { encryption: BackupEncryption; ciphertext: string } {
+  const salt = crypto.randomBytes(16);
+  const iv = crypto.randomBytes(12);
+  const params: Omit<BackupEncryption, 'authTag'> = {
+    algorithm: 'aes-256-gcm',
+    kdf: 'scrypt',
+    kdfParams: KDF_PARAMS,
+    keySource: key.source,
+    salt: salt.toString('base64'),
+    iv: iv.toString('base64'),
+  };
+
+  const cipher = crypto.createCipheriv('aes-256-gcm', deriveKey(key, salt, KDF_PARAMS), iv);
+  cipher.setAAD(Buffer.from(associatedData(params), 'utf8'));
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+
+  return {
+    encryption: { ...params, authTag: cipher.getAuthTag().toString('base64') },
+    ciphertext: ciphertext.toString('base64'),
+  };
+}
+
+/**
+ * Decrypt a backup payload, checking that neither the ciphertext nor the
+ * associated data was changed
+ * @param encryption The encryption parameters
+ * @param ciphertext The base64 encoded ciphertext
+ * @param key The backup key
+ * @param associatedData The associated data the payload was encrypted with
+ * @returns The decrypted payload
+ */
+export function decryptPayload(
+  encryption: BackupEncryption,
+  ciphertext: string,
+  key: BackupKey,
+  associatedData: (encryption: Omit<BackupEncryption, 'authTag'>) => string
+): string {
+  if (encryption.algorithm !== 'aes-256-gcm' || encryption.kdf !== 'scrypt') {
+    throw new Error(`Unsupported backup encryption ${encryption.algorithm} with ${encryption.kdf}`);
+  }
+
+  const { authTag, ...params } = encryption;
+  const decipher = crypto.createDecipheriv(
+    'aes-256-gcm',
+    deriveKey(key, Buffer.from(encryption.salt, 'base64'), encryption.kdfParams),
+    Buffer.from(encryption.iv, 'base64')
+  );
+  decipher.setAAD(Buffer.from(associatedData(params), 'utf8'));
+  decipher.setAuthTag(Buffer.from(authTag, 'base64'));
+
+  try {
+    return Buffer.concat([decipher.update(Buffer.from(ciphertext, 'base64')), decipher.final()]).toString('utf8');
+  } catch {
+    throw new Error('the key is wrong or the backup was changed after it was written');
+  }
+}
+
+function deriveKey(key: BackupKey, salt: Buffer, params: BackupEncryption['kdfParams']): Buffer {
+  return crypto.scryptSync(key.secret, salt, KEY_LENGTH, params);
+}
@@ -0,0 +1,207 @@
+import * as readline from 'readline/promises';
+import { Writable } from 'stream';
+import { MemberEvent } from './migration-hooks';
+import { TeamPlan } from './migration-plan';
+
+/**
+ * What a run is about to do to a team, for the operator to confirm
+ */
+export interface TeamActionSummary {
+  teamId: string;
+  renames: number;
+  deletes: number;
+  invites: number;
+  /** Team admins among the members the run changes */
+  admins: number;
+  ignoredEmails: string[];
+  /** Skipped members by reason, e.g. "Not selected by rules" */
+  skipped: Record<string, number>;
+}
+
+export type MemberAnswer = 'yes' | 'no' | 'all' | 'quit';
+
+const MEMBER_ANSWERS: Record<string, MemberAnswer> = {
+  y: 'yes',
+  yes: 'yes',
+  n: 'no',
+  no: 'no',
+  a: 'all',
+  all: 'all',
+  q: 'quit',
+  quit: 'quit',
+};
+
+/**
+ * Summarize the actions planned for a team
+ * @param teamPlan The team plan
+ * @returns The summary
+ */
+export function summarizeTeamPlan(teamPlan: TeamPlan): TeamActionSummary {
+  const summary: TeamActionSummary = {
+    teamId: teamPlan.teamId,
+    renames: teamPlan.actions.filter((action) => action.update).length,
+    deletes: teamPlan.actions.filter((action) => action.delete).length,
+    invites: teamPlan.actions.filter((action) => action.invite).length,
+    admins: teamPlan.actions.filter((action) => action.isTeamAdmin ?? action.invite?.isAdmin).length,
+    ignoredEmails: [],
+    skipped: {},
+  };
+
+  for (const skipped of teamPlan.skipped) {
+    if (skipped.reason === 'Ignored email') {
+      summary.ignoredEmails.push(skipped.email);
+    } else {
+      // Reasons like "Already migrated: Replaced by ..." are counted by their kind
+      const kind = skipped.reason.split(':')[0];
+      summary.skipped[kind] = (summary.skipped[kind] || 0) + 1;
+    }
+  }
+
+  return summary;
+}
+
+/**
+ * Describe a team's pending actions, one line per kind
+ * @param summary The summary
+ * @returns The lines
+ */
+export function describeTeamActions(summary: TeamActionSummary): string[] {
+  const skipped = Object.entries(summary.skipped).map(([reason, count]) => `${reason}: ${count}`);
+
+  return [
+    `Members renamed: ${summary.renames}`,
+    `Members deleted: ${summary.deletes}`,
+    `Members invited: ${summary.invites}`,
+    `Team admins among them: ${summary.admins}`,
+    `Ignored: ${summary.ignoredEmails.join(', ') || 'None'}`,
+    `Other skipped members: ${skipped.join(', ') || 'None'}`,
+  ];
+}
+
+/**
+ * Parse an answer to a member prompt
+ * @param input What the operator typed
+ * @returns The answer, or undefined if it isn't one
+ */
+export function parseMemberAnswer(input: string): MemberAnswer | undefined {
+  return MEMBER_ANSWERS[input.trim().toLowerCase()];
+}
+
+/**
+ * Ask the operator for a secret on a terminal, without echoing what is typed
+ * @param question The question
+ * @param input The terminal input
+ * @param output The terminal output
+ * @returns What the operator typed
+ */
+export async function readSecret(
+  question: string,
+  input: NodeJS.ReadableStream = process.stdin,
+  output: NodeJS.WritableStream = process.stdout
+): Promise<string> {
+  let muted = false;
+  const mutedOutput = new Writable({
+    write(chunk, encoding, callback) {
+      if (!muted) {
+        output.write(chunk, encoding);
+      }
+      callback();
+    },
+  });
+  const rl = readline.createInterface({ input, output: mutedOutput, terminal: true });
+
+  try {
+    // The question is written right away; only the answer is hidden
+    const answer = rl.question(question);
+    muted = true;
+    return await answer;
+  } finally {
+    rl.close();
+    output.write('\n');
+  }
+}
+
+/**
+ * Asks the operator to confirm teams and members on a terminal. Questions are
+ * asked one at a time, even when members are processed concurrently.
+ */
+export class ConfirmationPrompt {
+  private readonly rl: readline.Interface;
+  private queue: Promise<unknown> = Promise.resolve();
+  private allMembers = false;
+  private quit = false;
+  private closed = false;
+
+  constructor(input: NodeJS.ReadableStream = process.stdin, output: NodeJS.WritableStream = process.stdout) {
+    this.rl = readline.createInterface({ input, output });
+    // Closing the input, e.g. with Ctrl+D, declines everything still to be asked
+    this.rl.on('close', () => {
+      this.closed = true;
+      this.quit = true;
+    });
+  }
+
+  /**
+   * Ask a question once every earlier question was answered
+   * @param question The question
+   * @param unless Checked when it is the question's turn; if true, it isn't asked
+   * @returns What the operator typed, or undefined if the question wasn't asked
+   */
+  private ask(question: string, unless: () => boolean = () => false): Promise<string | undefined> {
+    const answer = this.queue.then(() =>
+      unless() || this.closed ? undefined : this.rl.question(question).catch(() => undefined)
+    );
+    this.queue = answer;
+    return answer;
+  }
+
+  /**
+   * Ask the operator to confirm a team by typing its ID
+   * @param teamId The team ID
+   * @param lines What the run will do to the team
+   * @returns True if the operator typed the team ID
+   */
+  async confirmTeam(teamId: string, lines: string[]): Promise<boolean> {
+    const answer = await this.ask(
+      `\nTeam ${teamId}:\n${lines.map((line) => `  ${line}`).join('\n')}\nType the team ID to confirm, or anything else to skip the team: `
+    );
+    return answer?.trim() === teamId;
+  }
+
+  /**
+   * Ask the operator whether to migrate a member. Answering "all" migrates
+   * every later member without asking; "quit" skips them.
+   * @param event The member about to be migrated
+   * @returns True if the member should be migrated
+   */
+  async confirmMember(event: MemberEvent): Promise<boolean> {
+    const settled = () => this.quit || this.allMembers;
+
+    for (;;) {
+      // Another member's answer may have settled it while this one waited
+      const input = await this.ask(
+        `Migrate ${event.member.name} (${event.member.email}) in team ${event.teamId}? [y]es/[n]o/[a]ll/[q]uit: `,
+        settled
+      );
+      if (settled()) {
+        return !this.quit;
+      }
+
+      const answer = parseMemberAnswer(input ?? '');
+      if (answer === 'all') {
+        this.allMembers = true;
+      } else if (answer === 'quit') {
+        this.quit = true;
+      } else if (answer) {
+        return answer === 'yes';
+      }
+    }
+  }
+
+  /**
+   * Close the terminal interface
+   */
+  close(): void {
+    this.rl.close();
+  }
+}
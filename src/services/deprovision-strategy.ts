@@ -0,0 +1,241 @@
+import { DeleteMemberRequest, Member, ProjectInvite, UpdateMemberRequest } from '../types/uniform-api';
+
+export const OBSOLETE_NAME_PREFIX = 'OBSOLETE - ';
+
+export const DEFAULT_NAME_TEMPLATE = `${OBSOLETE_NAME_PREFIX}{name}`;
+
+export const DEPROVISION_STRATEGIES = ['mark-obsolete', 'strip-access', 'demote', 'delete', 'mark-then-delete'] as const;
+
+export type DeprovisionStrategyName = (typeof DEPROVISION_STRATEGIES)[number];
+
+/** The request that deprovisions an old account */
+export type DeprovisionRequest =
+  | { method: 'update'; request: UpdateMemberRequest }
+  | { method: 'delete'; request: DeleteMemberRequest };
+
+export interface DeprovisionContext {
+  teamId: string;
+  /** The member's current project access, in the form update requests take it */
+  projects: ProjectInvite[];
+}
+
+/**
+ * Decides what happens to a member's old account once its replacement was
+ * invited. Strategies are asked again on every run, so they must recognise
+ * accounts they already handled.
+ */
+export interface DeprovisionStrategy {
+  /** Shown in run headers and logs */
+  readonly name: string;
+  /** The template renamed accounts are named with, if the strategy renames them */
+  readonly nameTemplate?: string;
+  /**
+   * Build the request that deprovisions a member's old account
+   * @param member The member as it is now
+   * @param context The team and the member's project access
+   * @returns The request, or undefined if the account needs nothing more
+   */
+  deprovision(member: Member, context: DeprovisionContext): DeprovisionRequest | undefined;
+  /**
+   * Get the name an account had before the strategy renamed it
+   * @param name The account's current name
+   * @returns The original name, or undefined if the strategy didn't give the name
+   */
+  originalName?(name: string): string | undefined;
+}
+
+export interface NameTemplateOptions {
+  /** How renamed accounts are named, with {name} standing for the original name; defaults to "OBSOLETE - {name}" */
+  nameTemplate?: string;
+}
+
+/**
+ * Check that a name template contains {name} exactly once, along with
+ * something to tell renamed accounts apart
+ * @param nameTemplate The template to check
+ */
+export function validateNameTemplate(nameTemplate: string): void {
+  if (nameTemplate.split('{name}').length !== 2 || nameTemplate === '{name}') {
+    throw new Error(`Name template "${nameTemplate}" must contain {name} exactly once, and more than that`);
+  }
+}
+
+/**
+ * Create a strategy that renames old accounts and makes the given changes to
+ * them in the same request
+ * @param name The strategy name
+ * @param nameTemplate How renamed accounts are named
+ * @param changes The admin flag and projects the account is left with
+ * @param isDone Whether a renamed account needs no more changes
+ * @returns The strategy
+ */
+function updateStrategy(
+  name: string,
+  nameTemplate: string,
+  changes: (member: Member, context: DeprovisionContext) => Pick<UpdateMemberRequest, 'isAdmin' | 'projects'>,
+  isDone: (member: Member) => boolean
+): DeprovisionStrategy {
+  validateNameTemplate(nameTemplate);
+  const [prefix, suffix] = nameTemplate.split('{name}');
+
+  const originalName = (current: string): string | undefined =>
+    current.length >= prefix.length + suffix.length && current.startsWith(prefix) && current.endsWith(suffix)
+      ? current.slice(prefix.length, current.length - suffix.length)
+      : undefined;
+
+  return {
+    name,
+    nameTemplate,
+    originalName,
+    deprovision(member, context) {
+      const renamed = originalName(member.name) !== undefined;
+      if (renamed && isDone(member)) {
+        return undefined;
+      }
+
+      return {
+        method: 'update',
+        request: {
+          identity_subject: member.subject,
+          teamId: context.teamId,
+          name: renamed ? member.name : nameTemplate.replace('{name}', member.name),
+          ...changes(member, context),
+        },
+      };
+    },
+  };
+}
+
+/**
+ * Rename old accounts and leave their access as it is
+ * @param options The name template
+ * @returns The strategy
+ */
+export function markObsoleteStrategy(options: NameTemplateOptions = {}): DeprovisionStrategy {
+  return updateStrategy(
+    'mark-obsolete',
+    options.nameTemplate ?? DEFAULT_NAME_TEMPLATE,
+    (member, context) => ({ isAdmin: member.isTeamAdmin, projects: context.projects }),
+    () => true
+  );
+}
+
+/**
+ * Rename old accounts and remove all their access: every project, and team
+ * admin rights, which give access to every project
+ * @param options The name template
+ * @returns The strategy
+ */
+export function stripAccessStrategy(options: NameTemplateOptions = {}): DeprovisionStrategy {
+  return updateStrategy(
+    'strip-access',
+    options.nameTemplate ?? DEFAULT_NAME_TEMPLATE,
+    () => ({ isAdmin: false, projects: [] }),
+    (member) => !member.isTeamAdmin && Object.keys(member.projects).length === 0
+  );
+}
+
+/**
+ * Rename old accounts and demote team admins to regular members, keeping
+ * their project access
+ * @param options The name template
+ * @returns The strategy
+ */
+export function demoteAdminsStrategy(options: NameTemplateOptions = {}): DeprovisionStrategy {
+  return updateStrategy(
+    'demote',
+    options.nameTemplate ?? DEFAULT_NAME_TEMPLATE,
+    (member, context) => ({ isAdmin: false, projects: context.projects }),
+    (member) => !member.isTeamAdmin
+  );
+}
+
+/**
+ * Delete old accounts
+ * @returns The strategy
+ */
+export function deleteStrategy(): DeprovisionStrategy {
+  return {
+    name: 'delete',
+    deprovision: (member, context) => ({
+      method: 'delete',
+      request: { teamId: context.teamId, subject: member.subject },
+    }),
+  };
+}
+
+/**
+ * Rename old accounts on the first run, and delete them on a later run once
+ * the new accounts had time to be taken into use
+ * @param options The name template
+ * @returns The strategy
+ */
+export function markThenDeleteStrategy(options: NameTemplateOptions = {}): DeprovisionStrategy {
+  const mark = markObsoleteStrategy(options);
+
+  return {
+    name: 'mark-then-delete',
+    nameTemplate: mark.nameTemplate,
+    originalName: mark.originalName,
+    deprovision: (member, context) =>
+      mark.originalName!(member.name) !== undefined
+        ? { method: 'delete', request: { teamId: context.teamId, subject: member.subject } }
+        : mark.deprovision(member, context),
+  };
+}
+
+/**
+ * Create a built-in strategy by name
+ * @param name The strategy name
+ * @param options The name template, for strategies that rename accounts
+ * @returns The strategy
+ */
+export function createDeprovisionStrategy(name: string, options: NameTemplateOptions = {}): DeprovisionStrategy {
+  switch (name) {
+    case 'mark-obsolete':
+      return markObsoleteStrategy(options);
+    case 'strip-access':
+      return stripAccessStrategy(options);
+    case 'demote':
+      return demoteAdminsStrategy(options);
+    case 'delete':
+      return deleteStrategy();
+    case 'mark-then-delete':
+      return markThenDeleteStrategy(options);
+    default:
+      throw new Error(`Unknown deprovisioning strategy "${name}"; use one of ${DEPROVISION_STRATEGIES.join(', ')}`);
+  }
+}
+
+/**
+ * Pick a built-in strategy by name, or from the markObsolete and
+ * deleteMembers flags when no name is given
+ * @param name The strategy name, or "none" to leave old accounts alone
+ * @param flags The legacy flags and the name template
+ * @returns The strategy, or undefined if old accounts are left alone
+ */
+export function selectDeprovisionStrategy(
+  name: string | undefined,
+  flags: NameTemplateOptions & { markObsolete: boolean; deleteMembers: boolean }
+): DeprovisionStrategy | undefined {
+  const strategyName = name ?? (flags.deleteMembers ? 'delete' : flags.markObsolete ? 'mark-obsolete' : 'none');
+  if (strategyName === 'none') {
+    return undefined;
+  }
+  if (!(DEPROVISION_STRATEGIES as readonly string[]).includes(strategyName)) {
+    throw new Error(`Unknown deprovisioning strategy "${strategyName}"; use one of ${DEPROVISION_STRATEGIES.join(', ')} or none`);
+  }
+  return createDeprovisionStrategy(strategyName, { nameTemplate: flags.nameTemplate });
+}
+
+/**
+ * Describe a strategy for run headers
+ * @param strategy The strategy
+ * @returns The strategy name and its name template
+ */
+export function describeDeprovisionStrategy(strategy: DeprovisionStrategy | undefined): string {
+  if (!strategy) {
+    return 'none (old accounts are left as they are)';
+  }
+  return strategy.nameTemplate ? `${strategy.name} (renamed to "${strategy.nameTemplate}")` : strategy.name;
+}
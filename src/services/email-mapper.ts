@@ -0,0 +1,178 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+export interface EmailDomainRewrite {
+  from: string;
+  to: string;
+}
+
+interface EmailMapFile {
+  emails?: Record<string, string>;
+  domains?: Record<string, string>;
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * Maps the email of an existing member to the email of their SSO identity.
+ *
+ * Explicit email pairs take precedence over domain rewrites. Emails that match
+ * neither are reported as unmapped.
+ */
+export class EmailMapper {
+  private readonly pairs = new Map<string, string>();
+  private readonly domainRewrites = new Map<string, string>();
+
+  constructor(pairs: Record<string, string>, domainRewrites: EmailDomainRewrite[] = []) {
+    for (const [from, to] of Object.entries(pairs)) {
+      if (!EMAIL_PATTERN.test(from) || !EMAIL_PATTERN.test(to)) {
+        throw new Error(`Invalid email mapping: ${from} -> ${to}`);
+      }
+      this.pairs.set(from.trim().toLowerCase(), to.trim());
+    }
+
+    for (const rewrite of domainRewrites) {
+      const from = this.normalizeDomain(rewrite.from);
+      const to = this.normalizeDomain(rewrite.to);
+      if (!from || !to) {
+        throw new Error(`Invalid email domain rewrite: ${rewrite.from} -> ${rewrite.to}`);
+      }
+      this.domainRewrites.set(from, to);
+    }
+
+    this.checkForCollisions();
+  }
+
+  /**
+   * Load explicit email pairs and domain rewrites from a CSV or JSON file.
+   *
+   * CSV files contain one `old_email,new_email` pair per line; a header line and
+   * lines starting with `#` are ignored. JSON files contain either an array of
+   * `{ "from": ..., "to": ... }` pairs or an object with `emails` and `domains`
+   * maps.
+   * @param filePath Path to the mapping file
+   * @param extraDomainRewrites Domain rewrites to apply in addition to the file
+   * @returns The email mapper
+   */
+  static fromFile(filePath: string, extraDomainRewrites: EmailDomainRewrite[] = []): EmailMapper {
+    const resolvedPath = path.resolve(filePath);
+    if (!fs.existsSync(resolvedPath)) {
+      throw new Error(`Email mapping file not found: ${resolvedPath}`);
+    }
+
+    const content = fs.readFileSync(resolvedPath, 'utf8');
+
+    if (path.extname(resolvedPath).toLowerCase() === '.csv') {
+      return new EmailMapper(EmailMapper.parseCsv(content), extraDomainRewrites);
+    }
+
+    const parsed = JSON.parse(content) as EmailMapFile | EmailDomainRewrite[];
+
+    if (Array.isArray(parsed)) {
+      const pairs: Record<string, string> = {};
+      for (const pair of parsed) {
+        pairs[pair.from] = pair.to;
+      }
+      return new EmailMapper(pairs, extraDomainRewrites);
+    }
+
+    const domainRewrites = Object.entries(parsed.domains || {}).map(([from, to]) => ({ from, to }));
+    return new EmailMapper(parsed.emails || {}, [...domainRewrites, ...extraDomainRewrites]);
+  }
+
+  /**
+   * Parse domain rewrites given as a comma-separated list of `old=new` rules
+   * @param rules The rewrite rules, e.g. `oldcorp.com=newcorp.com`
+   * @returns The domain rewrites
+   */
+  static parseDomainRewrites(rules: string): EmailDomainRewrite[] {
+    return rules
+      .split(',')
+      .map((rule) => rule.trim())
+      .filter(Boolean)
+      .map((rule) => {
+        const [from, to, ...rest] = rule.split('=').map((part) => part.trim());
+        if (!from || !to || rest.length > 0) {
+          throw new Error(`Invalid email domain rewrite rule: ${rule}. Expected old-domain=new-domain`);
+        }
+        return { from, to };
+      });
+  }
+
+  private static parseCsv(content: string): Record<string, string> {
+    const pairs: Record<string, string> = {};
+
+    content.split(/\r?\n/).forEach((line, index) => {
+      const trimmed = line.trim();
+      if (!trimmed || trimmed.startsWith('#')) {
+        return;
+      }
+
+      const [from, to] = trimmed.split(',').map((cell) => cell.trim().replace(/^"(.*)"$/, '$1'));
+
+      // Allow an optional header row
+      if (index === 0 && !from.includes('@')) {
+        return;
+      }
+
+      if (!from || !to) {
+        throw new Error(`Invalid email mapping on line ${index + 1}: ${line}`);
+      }
+
+      pairs[from] = to;
+    });
+
+    return pairs;
+  }
+
+  /**
+   * Get the SSO email for a member email
+   * @param email The current member email
+   * @returns The mapped email, or undefined if no pair or rewrite matches
+   */
+  map(email: string): string | undefined {
+    const normalized = email.trim().toLowerCase();
+
+    const explicit = this.pairs.get(normalized);
+    if (explicit) {
+      return explicit;
+    }
+
+    const atIndex = normalized.lastIndexOf('@');
+    const domainRewrite = this.domainRewrites.get(normalized.slice(atIndex + 1));
+    if (atIndex > 0 && domainRewrite) {
+      return `${email.trim().slice(0, atIndex)}@${domainRewrite}`;
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Describe the mapping for the run header
+   * @returns A short description
+   */
+  describe(): string {
+    const rewrites = [...this.domainRewrites.entries()].map(([from, to]) => `${from} -> ${to}`);
+    return `${this.pairs.size} explicit pairs${rewrites.length > 0 ? `, domain rewrites: ${rewrites.join(', ')}` : ''}`;
+  }
+
+  private normalizeDomain(domain: string): string {
+    return domain.trim().toLowerCase().replace(/^@/, '');
+  }
+
+  /**
+   * Two old emails mapped onto the same new email would merge two people's
+   * access into a single SSO account
+   */
+  private checkForCollisions(): void {
+    const sources = new Map<string, string>();
+    for (const [from, to] of this.pairs) {
+      const target = to.toLowerCase();
+      const existing = sources.get(target);
+      if (existing) {
+        throw new Error(`Email mapping sends both ${existing} and ${from} to ${to}`);
+      }
+      sources.set(target, from);
+    }
+  }
+}
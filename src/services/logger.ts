@@ -0,0 +1,187 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error' | 'silent';
+
+export type LogFormat = 'text' | 'json';
+
+export type LogFields = Record<string, unknown>;
+
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+}
+
+export interface ConsoleLoggerOptions {
+  level?: LogLevel;
+  format?: LogFormat;
+  redactEmails?: boolean;
+}
+
+export const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error', 'silent'];
+
+export const LOG_FORMATS: LogFormat[] = ['text', 'json'];
+
+const LEVEL_ORDER: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+  silent: 100,
+};
+
+const EMAIL_PATTERN = /([A-Za-z0-9._%+-])[A-Za-z0-9._%+-]*@([A-Za-z0-9.-]+\.[A-Za-z]{2,})/g;
+
+const SECRET_FIELD_PATTERN = /^(api-?key|x-api-key|apikey|authorization|passphrase|password|secret|token)$/i;
+
+const REDACTED = '[REDACTED]';
+
+const logContext = new AsyncLocalStorage<string[]>();
+
+/**
+ * Run a function with a label added to the context of every log entry written
+ * while it runs, so output of concurrent work stays attributable
+ * @param label The label, e.g. a team ID or member email
+ * @param fn The function to run
+ * @returns The result of the function
+ */
+export function withLogContext<T>(label: string, fn: () => Promise<T>): Promise<T> {
+  return logContext.run([...(logContext.getStore() || []), label], fn);
+}
+
+/**
+ * Get the labels of the current log context
+ * @returns The labels, outermost first
+ */
+export function getLogContext(): string[] {
+  return logContext.getStore() || [];
+}
+
+/**
+ * Logger writing to the console, either as human readable text or as one JSON
+ * object per line. API keys registered with {@link ConsoleLogger.addSecret},
+ * fields with secret-looking names and, optionally, email addresses are
+ * redacted from every entry.
+ */
+export class ConsoleLogger implements Logger {
+  private readonly level: LogLevel;
+  private readonly format: LogFormat;
+  private readonly redactEmails: boolean;
+  private readonly secrets = new Set<string>();
+
+  constructor(options: ConsoleLoggerOptions = {}) {
+    this.level = options.level || 'info';
+    this.format = options.format || 'text';
+    this.redactEmails = options.redactEmails || false;
+  }
+
+  /**
+   * Register a secret, such as an API key, that must never appear in the output
+   * @param secret The secret value
+   */
+  addSecret(secret: string): void {
+    if (secret) {
+      this.secrets.add(secret);
+    }
+  }
+
+  debug(message: string, fields?: LogFields): void {
+    this.write('debug', message, fields);
+  }
+
+  info(message: string, fields?: LogFields): void {
+    this.write('info', message, fields);
+  }
+
+  warn(message: string, fields?: LogFields): void {
+    this.write('warn', message, fields);
+  }
+
+  error(message: string, fields?: LogFields): void {
+    this.write('error', message, fields);
+  }
+
+  private write(level: LogLevel, message: string, fields?: LogFields): void {
+    if (LEVEL_ORDER[level] < LEVEL_ORDER[this.level]) {
+      return;
+    }
+
+    const context = getLogContext().map((label) => this.redactText(label));
+    const redactedMessage = this.redactText(message);
+    const redactedFields = fields ? (this.redactValue(fields) as LogFields) : undefined;
+
+    if (this.format === 'json') {
+      const entry = {
+        time: new Date().toISOString(),
+        level,
+        ...(context.length > 0 ? { context } : {}),
+        message: redactedMessage,
+        ...redactedFields,
+      };
+      console.log(JSON.stringify(entry));
+      return;
+    }
+
+    const prefix = context.map((label) => `[${label}] `).join('');
+    const details = redactedFields
+      ? Object.entries(redactedFields).map(([key, value]) =>
+          typeof value === 'string' ? `${key}: ${value}` : `${key}: ${JSON.stringify(value, null, 2)}`
+        )
+      : [];
+    const line = [`${prefix}${redactedMessage}`, ...details].join('\n');
+
+    if (level === 'error') {
+      console.error(line);
+    } else if (level === 'warn') {
+      console.warn(line);
+    } else {
+      console.log(line);
+    }
+  }
+
+  private redactText(text: string): string {
+    let redacted = text;
+
+    for (const secret of this.secrets) {
+      redacted = redacted.split(secret).join(REDACTED);
+    }
+
+    if (this.redactEmails) {
+      redacted = redacted.replace(EMAIL_PATTERN, '$1***@$2');
+    }
+
+    return redacted;
+  }
+
+  private redactValue(value: unknown, key?: string): unknown {
+    if (key !== undefined && SECRET_FIELD_PATTERN.test(key) && value !== undefined && value !== null) {
+      return REDACTED;
+    }
+
+    if (typeof value === 'string') {
+      return this.redactText(value);
+    }
+
+    if (value instanceof Error) {
+      return this.redactText(value.stack || value.message);
+    }
+
+    if (Array.isArray(value)) {
+      return value.map((item) => this.redactValue(item));
+    }
+
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(
+        Object.entries(value as Record<string, unknown>).map(([entryKey, entryValue]) => [
+          entryKey,
+          this.redactValue(entryValue, entryKey),
+        ])
+      );
+    }
+
+    return value;
+  }
+}
+
+export const defaultLogger: Logger = new ConsoleLogger();
@@ -0,0 +1,125 @@
+import { Member, ProjectRoles } from '../types/uniform-api';
+
+/**
+ * Format a list of roles or permissions for change descriptions
+ * @param values The roles or permissions
+ * @returns The sorted list in brackets
+ */
+function formatList(values: string[] | undefined): string {
+  return `[${[...(values || [])].sort().join(', ')}]`;
+}
+
+function formatProject(project: ProjectRoles): string {
+  const roles = `roles ${formatList(project.roles)}`;
+  return project.customPermissions?.length ? `${roles}, customPermissions ${formatList(project.customPermissions)}` : roles;
+}
+
+function sameList(a: string[] | undefined, b: string[] | undefined): boolean {
+  return formatList(a) === formatList(b);
+}
+
+/**
+ * Describe how a member's access differs between two snapshots: the team
+ * admin flag, and the roles and custom permissions of every project. The order
+ * of roles and permissions doesn't matter.
+ * @param from The expected access, e.g. from a backup
+ * @param to The actual access, e.g. from the live team
+ * @returns One description per difference; empty if the access is the same
+ */
+export function describeAccessChanges(
+  from: Pick<Member, 'isTeamAdmin' | 'projects'>,
+  to: Pick<Member, 'isTeamAdmin' | 'projects'>
+): string[] {
+  const changes: string[] = [];
+
+  if (from.isTeamAdmin !== to.isTeamAdmin) {
+    changes.push(`isTeamAdmin: ${from.isTeamAdmin} -> ${to.isTeamAdmin}`);
+  }
+
+  const projectIds = [...new Set([...Object.keys(from.projects), ...Object.keys(to.projects)])].sort();
+
+  for (const projectId of projectIds) {
+    const before: ProjectRoles | undefined = from.projects[projectId];
+    const after: ProjectRoles | undefined = to.projects[projectId];
+
+    if (!after) {
+      changes.push(`project ${projectId}: removed (${formatProject(before)})`);
+    } else if (!before) {
+      changes.push(`project ${projectId}: added (${formatProject(after)})`);
+    } else {
+      if (!sameList(before.roles, after.roles)) {
+        changes.push(`project ${projectId} roles: ${formatList(before.roles)} -> ${formatList(after.roles)}`);
+      }
+      if (!sameList(before.customPermissions, after.customPermissions)) {
+        changes.push(
+          `project ${projectId} customPermissions: ${formatList(before.customPermissions)} -> ${formatList(after.customPermissions)}`
+        );
+      }
+    }
+  }
+
+  return changes;
+}
+
+export interface AccessDifference {
+  /** Access the expected snapshot has and the actual one lacks */
+  lost: string[];
+  /** Access the actual snapshot has and the expected one lacks */
+  gained: string[];
+}
+
+/**
+ * Compare a member's access between two snapshots, split into access that
+ * was lost and access that was gained
+ * @param expected The expected access, e.g. from a backup
+ * @param actual The actual access, e.g. from the live team
+ * @returns The lost and gained access; both empty if the access is the same
+ */
+export function compareAccess(
+  expected: Pick<Member, 'isTeamAdmin' | 'projects'>,
+  actual: Pick<Member, 'isTeamAdmin' | 'projects'>
+): AccessDifference {
+  return {
+    lost: listMissingAccess(expected, actual),
+    gained: listMissingAccess(actual, expected),
+  };
+}
+
+/**
+ * List the access one snapshot has that another lacks
+ * @param from The snapshot to take the access from
+ * @param to The snapshot to look for the access in
+ * @returns One description per missing admin flag, project, role or permission
+ */
+function listMissingAccess(
+  from: Pick<Member, 'isTeamAdmin' | 'projects'>,
+  to: Pick<Member, 'isTeamAdmin' | 'projects'>
+): string[] {
+  const missing: string[] = [];
+
+  if (from.isTeamAdmin && !to.isTeamAdmin) {
+    missing.push('team admin');
+  }
+
+  for (const [projectId, project] of Object.entries(from.projects).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))) {
+    const other = to.projects[projectId];
+    if (!other) {
+      missing.push(`project ${projectId} (roles ${formatList(project.roles)})`);
+      continue;
+    }
+
+    for (const role of [...project.roles].sort()) {
+      if (!other.roles.includes(role)) {
+        missing.push(`project ${projectId} role ${role}`);
+      }
+    }
+
+    for (const permission of [...(project.customPermissions || [])].sort()) {
+      if (!(other.customPermissions || []).includes(permission)) {
+        missing.push(`project ${projectId} permission ${permission}`);
+      }
+    }
+  }
+
+  return missing;
+}
@@ -0,0 +1,282 @@
+import { BackupKey, Member } from '../types/uniform-api';
+import { TOOL_VERSION } from '../version';
+import { BackupEncryption, decryptPayload, encryptPayload } from './backup-encryption';
+import { canonicalJson } from './migration-plan';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+
+export const BACKUP_FORMAT_VERSION = 1;
+
+export interface BackupMetadata {
+  version: number;
+  teamId: string;
+  apiUrl: string;
+  createdAt: string;
+  toolVersion: string;
+  memberCount: number;
+  checksum: string;
+}
+
+export interface MemberBackup extends BackupMetadata {
+  members: Member[];
+}
+
+export interface EncryptedMemberBackup extends BackupMetadata {
+  encryption: BackupEncryption;
+  ciphertext: string;
+}
+
+export interface BackupContents {
+  /** The envelope metadata; undefined for legacy backups holding a bare member array */
+  metadata?: BackupMetadata;
+  /** Where the key the backup was encrypted with came from; undefined for unencrypted backups */
+  keySource?: string;
+  members: Member[];
+}
+
+export interface BackupEncryptionOptions {
+  key?: BackupKey;
+  allowUnencrypted?: boolean;
+}
+
+const LEGACY_BACKUP_FILE_PATTERN = /^team-(.+)-backup-\d{4}-\d{2}-\d{2}T[\d-]+Z\.json$/;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * Compute the checksum of backed up members. Key order doesn't change the
+ * checksum, any changed value does.
+ * @param members The members
+ * @returns The checksum, prefixed with the algorithm
+ */
+export function checksumMembers(members: Member[]): string {
+  return `sha256:${crypto.createHash('sha256').update(canonicalJson(members)).digest('hex')}`;
+}
+
+/**
+ * Wrap a team's members in a versioned backup envelope
+ * @param teamId The team ID
+ * @param apiUrl The API the members were read from
+ * @param members The members
+ * @returns The backup
+ */
+export function createMemberBackup(teamId: string, apiUrl: string, members: Member[]): MemberBackup {
+  return {
+    version: BACKUP_FORMAT_VERSION,
+    teamId,
+    apiUrl,
+    createdAt: new Date().toISOString(),
+    toolVersion: TOOL_VERSION,
+    memberCount: members.length,
+    checksum: checksumMembers(members),
+    members,
+  };
+}
+
+/**
+ * Write a backup to disk, encrypted if a key is given. Writing an unencrypted
+ * backup must be explicitly allowed. Either way, the file holds member data
+ * and is readable by its owner only.
+ * @param filePath The backup file path
+ * @param backup The backup
+ * @param options The backup key, or whether unencrypted backups are allowed
+ */
+export function writeBackup(filePath: string, backup: MemberBackup, options: BackupEncryptionOptions = {}): void {
+  let contents: MemberBackup | EncryptedMemberBackup = backup;
+
+  if (!options.key) {
+    if (!options.allowUnencrypted) {
+      throw new Error('Refusing to write an unencrypted backup: configure a backup key or allow unencrypted backups');
+    }
+  } else {
+    const { members, ...metadata } = backup;
+    contents = {
+      ...metadata,
+      ...encryptPayload(JSON.stringify(members), options.key, (encryption) => associatedData(metadata, encryption)),
+    };
+  }
+
+  fs.writeFileSync(filePath, JSON.stringify(contents, null, 2), { encoding: 'utf8', mode: 0o600 });
+}
+
+/**
+ * Read and validate a backup, decrypting it if it is encrypted. Envelopes must
+ * have a supported version, a member count and a checksum matching their
+ * members; legacy backups holding a bare member array are accepted, but can
+ * only be checked against the member schema. Reading an unencrypted backup
+ * must be explicitly allowed.
+ * @param filePath The backup file path
+ * @param options The backup key, or whether unencrypted backups are allowed
+ * @returns The backup metadata and members
+ */
+export function readBackup(filePath: string, options: BackupEncryptionOptions = {}): BackupContents {
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`Backup file not found: ${filePath}`);
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  } catch (error) {
+    throw new Error(`Backup file ${filePath} is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  if (Array.isArray(data)) {
+    checkUnencryptedAllowed(filePath, options);
+    validateMembers(data, filePath);
+    return { members: data as Member[] };
+  }
+
+  if (!data || typeof data !== 'object') {
+    throw new Error(`Backup file ${filePath} is neither a backup nor a member array`);
+  }
+
+  const { members: plainMembers, encryption, ciphertext, ...metadata } = data as MemberBackup &
+    Partial<EncryptedMemberBackup>;
+
+  if (metadata.version !== BACKUP_FORMAT_VERSION) {
+    throw new Error(`Unsupported backup version ${metadata.version} in ${filePath}`);
+  }
+
+  for (const key of ['teamId', 'apiUrl', 'createdAt', 'toolVersion', 'checksum'] as const) {
+    if (typeof metadata[key] !== 'string' || !metadata[key]) {
+      throw new Error(`Backup file ${filePath} has no ${key}`);
+    }
+  }
+
+  let members = plainMembers;
+
+  if (encryption) {
+    if (typeof ciphertext !== 'string') {
+      throw new Error(`Encrypted backup file ${filePath} has no ciphertext`);
+    }
+
+    if (!options.key) {
+      throw new Error(`Backup file ${filePath} is encrypted with the key from ${encryption.keySource}; provide that key to read it`);
+    }
+
+    try {
+      members = JSON.parse(
+        decryptPayload(encryption, ciphertext, options.key, (params) => associatedData(metadata, params))
+      ) as Member[];
+    } catch (error) {
+      throw new Error(`Cannot decrypt backup file ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  } else {
+    checkUnencryptedAllowed(filePath, options);
+  }
+
+  if (!Array.isArray(members)) {
+    throw new Error(`Backup file ${filePath} has no members`);
+  }
+
+  if (metadata.memberCount !== members.length) {
+    throw new Error(
+      `Backup file ${filePath} should hold ${metadata.memberCount} members but holds ${members.length}`
+    );
+  }
+
+  if (checksumMembers(members) !== metadata.checksum) {
+    throw new Error(`Checksum mismatch in backup file ${filePath}: the members were changed after the backup was written`);
+  }
+
+  validateMembers(members, filePath);
+
+  return { metadata, keySource: encryption?.keySource, members };
+}
+
+/**
+ * Get the team a backup belongs to: the team in its metadata or, for legacy
+ * backups, the team in the default backup file name
+ * @param filePath The backup file path
+ * @param contents The backup contents
+ * @returns The team ID, or undefined if the backup doesn't record it
+ */
+export function getBackupTeamId(filePath: string, contents: BackupContents): string | undefined {
+  return contents.metadata?.teamId ?? LEGACY_BACKUP_FILE_PATTERN.exec(path.basename(filePath))?.[1];
+}
+
+/**
+ * Refuse an unencrypted backup unless unencrypted backups are allowed
+ * @param filePath The backup file path
+ * @param options The backup encryption options
+ */
+function checkUnencryptedAllowed(filePath: string, options: BackupEncryptionOptions): void {
+  if (!options.allowUnencrypted) {
+    throw new Error(`Refusing to read unencrypted backup file ${filePath}: allow unencrypted backups to read it`);
+  }
+}
+
+/**
+ * Build the data an encrypted backup is authenticated with, so its metadata
+ * and encryption parameters can't be changed without failing decryption
+ * @param metadata The backup metadata
+ * @param encryption The encryption parameters, without the authentication tag
+ * @returns The associated data
+ */
+function associatedData(metadata: BackupMetadata, encryption: Omit<BackupEncryption, 'authTag'>): string {
+  const { version, teamId, apiUrl, createdAt, toolVersion, memberCount, checksum } = metadata;
+  return canonicalJson({
+    metadata: { version, teamId, apiUrl, createdAt, toolVersion, memberCount, checksum },
+    encryption,
+  });
+}
+
+/**
+ * Check that every backed up member has the fields a restore relies on, and
+ * that no subject appears twice. Emails may repeat: after a run that marks old
+ * accounts obsolete, the old account and its replacement share an email
+ * @param members The members to check
+ * @param filePath The backup file path, used in error messages
+ */
+function validateMembers(members: unknown[], filePath: string): void {
+  const subjects = new Set<string>();
+
+  members.forEach((value, index) => {
+    const member = value as Member;
+    const label = `member ${index} in ${filePath}`;
+
+    if (!member || typeof member !== 'object' || Array.isArray(member)) {
+      throw new Error(`Invalid ${label}: not an object`);
+    }
+
+    if (typeof member.subject !== 'string' || !member.subject) {
+      throw new Error(`Invalid ${label}: missing subject`);
+    }
+
+    if (typeof member.email !== 'string' || !EMAIL_PATTERN.test(member.email)) {
+      throw new Error(`Invalid ${label}: "${member.email}" is not an email`);
+    }
+
+    if (typeof member.name !== 'string') {
+      throw new Error(`Invalid ${label}: missing name`);
+    }
+
+    if (typeof member.isTeamAdmin !== 'boolean') {
+      throw new Error(`Invalid ${label}: isTeamAdmin must be a boolean`);
+    }
+
+    if (!member.projects || typeof member.projects !== 'object' || Array.isArray(member.projects)) {
+      throw new Error(`Invalid ${label}: projects must be an object`);
+    }
+
+    for (const [projectId, project] of Object.entries(member.projects)) {
+      const isStringArray = (list: unknown) =>
+        Array.isArray(list) && list.every((item) => typeof item === 'string');
+
+      if (!project || !isStringArray(project.roles)) {
+        throw new Error(`Invalid ${label}: roles of project ${projectId} must be an array of strings`);
+      }
+
+      if (project.customPermissions !== undefined && !isStringArray(project.customPermissions)) {
+        throw new Error(`Invalid ${label}: customPermissions of project ${projectId} must be an array of strings`);
+      }
+    }
+
+    if (subjects.has(member.subject)) {
+      throw new Error(`Invalid ${label}: subject ${member.subject} appears more than once`);
+    }
+    subjects.add(member.subject);
+  });
+}
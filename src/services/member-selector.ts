@@ -0,0 +1,219 @@
+import { Member, MemberRule, MemberSelectionRules } from '../types/uniform-api';
+import * as fs from 'fs';
+import * as path from 'path';
+
+export interface SkippedMember {
+  email: string;
+  subject: string;
+  reason: string;
+}
+
+const RULE_KEYS: (keyof MemberRule)[] = [
+  'name',
+  'emails',
+  'domains',
+  'isTeamAdmin',
+  'projects',
+  'roles',
+  'memberSince',
+];
+
+/**
+ * Convert a glob pattern with `*` and `?` wildcards to a case-insensitive regular expression
+ * @param pattern The glob pattern
+ * @returns The regular expression
+ */
+function globToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .split('')
+    .map((char) => {
+      if (char === '*') {
+        return '.*';
+      }
+      if (char === '?') {
+        return '.';
+      }
+      return char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('');
+  return new RegExp(`^${source}$`, 'i');
+}
+
+/**
+ * Selects the members a run processes using include and exclude rules.
+ *
+ * A rule matches a member when every criterion it sets matches. A member is
+ * selected when it matches at least one include rule (or there are none) and
+ * no exclude rule.
+ */
+export class MemberSelector {
+  private readonly rules: MemberSelectionRules;
+  private readonly scope: string;
+
+  /**
+   * @param rules The selection rules
+   * @param scope Where the rules come from, used in skip reasons (e.g. "global")
+   */
+  constructor(rules: MemberSelectionRules, scope: string) {
+    MemberSelector.validate(rules, scope);
+    this.rules = rules;
+    this.scope = scope;
+  }
+
+  /**
+   * Load selection rules from a JSON file with `include` and `exclude` arrays
+   * @param filePath Path to the rules file
+   * @returns The selection rules
+   */
+  static loadRules(filePath: string): MemberSelectionRules {
+    const resolvedPath = path.resolve(filePath);
+    if (!fs.existsSync(resolvedPath)) {
+      throw new Error(`Rules file not found: ${resolvedPath}`);
+    }
+
+    const rules = JSON.parse(fs.readFileSync(resolvedPath, 'utf8')) as MemberSelectionRules;
+    MemberSelector.validate(rules, resolvedPath);
+    return rules;
+  }
+
+  /**
+   * Check that selection rules are well formed
+   * @param rules The selection rules
+   * @param scope Where the rules come from, used in error messages
+   */
+  static validate(rules: MemberSelectionRules, scope: string): void {
+    if (!rules || typeof rules !== 'object' || Array.isArray(rules)) {
+      throw new Error(`Selection rules in ${scope} must be an object with include and exclude arrays`);
+    }
+
+    for (const key of Object.keys(rules)) {
+      if (key !== 'include' && key !== 'exclude') {
+        throw new Error(`Unknown selection rules key "${key}" in ${scope}`);
+      }
+    }
+
+    for (const list of ['include', 'exclude'] as const) {
+      const listRules = rules[list];
+      if (listRules === undefined) {
+        continue;
+      }
+
+      if (!Array.isArray(listRules)) {
+        throw new Error(`Selection rules "${list}" in ${scope} must be an array`);
+      }
+
+      listRules.forEach((rule, index) => {
+        const label = `${list}[${index}] in ${scope}`;
+
+        for (const key of Object.keys(rule)) {
+          if (!RULE_KEYS.includes(key as keyof MemberRule)) {
+            throw new Error(`Unknown rule criterion "${key}" in ${label}`);
+          }
+        }
+
+        for (const key of ['emails', 'domains', 'projects', 'roles'] as const) {
+          const values = rule[key];
+          if (values !== undefined && (!Array.isArray(values) || values.some((value) => typeof value !== 'string'))) {
+            throw new Error(`Rule criterion "${key}" in ${label} must be an array of strings`);
+          }
+        }
+
+        if (rule.isTeamAdmin !== undefined && typeof rule.isTeamAdmin !== 'boolean') {
+          throw new Error(`Rule criterion "isTeamAdmin" in ${label} must be a boolean`);
+        }
+
+        if (rule.memberSince) {
+          for (const bound of ['after', 'before'] as const) {
+            const value = rule.memberSince[bound];
+            if (value !== undefined && Number.isNaN(Date.parse(value))) {
+              throw new Error(`Rule criterion "memberSince.${bound}" in ${label} must be a date`);
+            }
+          }
+        }
+      });
+    }
+  }
+
+  /**
+   * Get the reason a member is not selected by the rules
+   * @param member The member to check
+   * @returns The reason the member is excluded, or undefined if it is selected
+   */
+  getExclusionReason(member: Member): string | undefined {
+    const include = this.rules.include || [];
+    if (include.length > 0 && !include.some((rule) => this.matches(rule, member))) {
+      return `Not matched by any ${this.scope} include rule`;
+    }
+
+    const exclude = this.rules.exclude || [];
+    const excludeIndex = exclude.findIndex((rule) => this.matches(rule, member));
+    if (excludeIndex >= 0) {
+      return `Excluded by ${this.scope} rule "${this.ruleName(exclude[excludeIndex], 'exclude', excludeIndex)}"`;
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Describe the rules for the run header
+   * @returns A short description
+   */
+  describe(): string {
+    const include = (this.rules.include || []).map((rule, index) => this.ruleName(rule, 'include', index));
+    const exclude = (this.rules.exclude || []).map((rule, index) => this.ruleName(rule, 'exclude', index));
+    return `include: ${include.join(', ') || 'all'}; exclude: ${exclude.join(', ') || 'none'}`;
+  }
+
+  private ruleName(rule: MemberRule, list: 'include' | 'exclude', index: number): string {
+    return rule.name || `${list}[${index}]`;
+  }
+
+  private matches(rule: MemberRule, member: Member): boolean {
+    const email = member.email.toLowerCase();
+
+    if (rule.emails && !rule.emails.some((pattern) => globToRegExp(pattern).test(email))) {
+      return false;
+    }
+
+    if (rule.domains) {
+      const domain = email.slice(email.lastIndexOf('@') + 1);
+      if (!rule.domains.some((pattern) => globToRegExp(pattern.replace(/^@/, '')).test(domain))) {
+        return false;
+      }
+    }
+
+    if (rule.isTeamAdmin !== undefined && member.isTeamAdmin !== rule.isTeamAdmin) {
+      return false;
+    }
+
+    if (rule.projects && !rule.projects.some((projectId) => projectId in member.projects)) {
+      return false;
+    }
+
+    if (rule.roles) {
+      const wanted = rule.roles.map((role) => role.toLowerCase());
+      const hasRole = Object.values(member.projects).some((project) =>
+        project.roles.some((role) => wanted.includes(role.toLowerCase()))
+      );
+      if (!hasRole) {
+        return false;
+      }
+    }
+
+    if (rule.memberSince) {
+      const joined = Date.parse(member.memberSince);
+      const { after, before } = rule.memberSince;
+      if (Number.isNaN(joined)) {
+        return false;
+      }
+      if (after !== undefined && joined < Date.parse(after)) {
+        return false;
+      }
+      if (before !== undefined && joined >= Date.parse(before)) {
+        return false;
+      }
+    }
+
+    return true;
+  }
+}
@@ -0,0 +1,84 @@
+import { DeleteMemberRequest, InviteMemberRequest, Member, UpdateMemberRequest } from '../types/uniform-api';
+import { WaveSummary } from './rollout-waves';
+import {
+  MemberOutcome,
+  MemberOutcomeAction,
+  MemberState,
+  MigrationResult,
+  RestoreResult,
+  RollbackResult,
+} from './migration-service';
+
+export interface MemberEvent {
+  teamId: string;
+  member: Pick<Member, 'email' | 'subject' | 'name'>;
+}
+
+export interface MemberCompletedEvent extends MemberEvent {
+  /** The outcome of every step run for the member */
+  outcomes: MemberOutcome[];
+  /** Where the member was left; undefined in dry runs */
+  state?: MemberState;
+}
+
+export type MemberMutation =
+  | { method: 'invite'; request: InviteMemberRequest }
+  | { method: 'update'; request: UpdateMemberRequest }
+  | { method: 'delete'; request: DeleteMemberRequest };
+
+export type MutationEvent = MemberMutation & {
+  teamId: string;
+  member: Pick<Member, 'email' | 'subject'>;
+  /** The step the request belongs to */
+  action: MemberOutcomeAction;
+};
+
+export interface WaveEvent {
+  teamId: string;
+  /** "canary", or "wave N" */
+  wave: string;
+  /** The position of the wave, starting at 0 */
+  index: number;
+  total: number;
+  members: Pick<Member, 'email' | 'subject'>[];
+  /** The waves that already ran */
+  completedWaves: WaveSummary[];
+}
+
+export interface BackupEvent {
+  teamId: string;
+  path: string;
+  memberCount: number;
+  /** Where the key the backup was encrypted with came from; undefined for unencrypted backups */
+  keySource?: string;
+}
+
+export type TeamCompletedEvent =
+  | { operation: 'migrate' | 'apply'; teamId: string; result: MigrationResult }
+  | { operation: 'restore'; teamId: string; result: RestoreResult }
+  | { operation: 'rollback'; teamId: string; result: RollbackResult };
+
+/**
+ * Callbacks a migration service calls as it works. Hooks may be async and are
+ * awaited; an error thrown by a hook fails the member or team it was called for.
+ */
+export interface MigrationHooks {
+  /** Called before a selected member is migrated; return false to skip the member */
+  beforeMember?: (event: MemberEvent) => boolean | void | Promise<boolean | void>;
+  /** Called after a selected member was migrated, whether or not every step succeeded */
+  afterMember?: (event: MemberCompletedEvent) => void | Promise<void>;
+  /**
+   * Called before every request that changes the team, in live runs only.
+   * Return false to veto the request: it isn't sent, and is recorded as skipped.
+   */
+  beforeMutation?: (event: MutationEvent) => boolean | void | Promise<boolean | void>;
+  /**
+   * Called before every wave of a team migrated in waves, once the previous
+   * wave passed its health check. Return false to stop the rollout.
+   */
+  beforeWave?: (event: WaveEvent) => boolean | void | Promise<boolean | void>;
+  /** Called after a team's backup was written */
+  onBackup?: (event: BackupEvent) => void | Promise<void>;
+  /** Called when migrating, applying a plan to, restoring or rolling back a team finished, with its result */
+  onTeamCompleted?: (event: TeamCompletedEvent) => void | Promise<void>;
+}
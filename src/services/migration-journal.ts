@@ -0,0 +1,386 @@
+import { Member } from '../types/uniform-api';
+import * as fs from 'fs';
+import * as path from 'path';
+
+export type JournalOperation = 'migrate' | 'restore';
+
+export type JournalStep = 'obsolete-mark' | 'delete' | 'invite' | 'update';
+
+export interface JournalRunRecord {
+  kind: 'run';
+  operation: JournalOperation;
+  startedAt: string;
+}
+
+export interface JournalMemberRecord {
+  kind: 'member';
+  teamId: string;
+  member: Member;
+  recordedAt: string;
+}
+
+export interface JournalStepRecord {
+  kind: 'step';
+  teamId: string;
+  subject: string;
+  email: string;
+  step: JournalStep;
+  invitedEmail?: string;
+  completedAt: string;
+}
+
+export interface JournalBackupRecord {
+  kind: 'backup';
+  teamId: string;
+  path: string;
+  recordedAt: string;
+}
+
+export interface JournalTeamRecord {
+  kind: 'team-complete';
+  teamId: string;
+  completedAt: string;
+}
+
+export type JournalRecord =
+  | JournalRunRecord
+  | JournalMemberRecord
+  | JournalStepRecord
+  | JournalBackupRecord
+  | JournalTeamRecord;
+
+/**
+ * Append-only record of the steps a migration or restore run has completed.
+ *
+ * Every record is written as a single JSON line and flushed to disk before the
+ * next API call is made, so a run that crashes or is killed can be resumed
+ * without repeating steps that already succeeded.
+ */
+export class MigrationJournal {
+  private readonly filePath: string;
+  private fd?: number;
+  private members = new Map<string, Member>();
+  private teamIds = new Set<string>();
+  private steps = new Map<string, JournalStepRecord>();
+  private backups = new Map<string, string>();
+  private completedTeams = new Set<string>();
+
+  private constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  /**
+   * Start a new journal file
+   * @param filePath Path of the journal file to create
+   * @param operation The operation the journal belongs to
+   * @returns The journal
+   */
+  static create(filePath: string, operation: JournalOperation): MigrationJournal {
+    const resolvedPath = path.resolve(filePath);
+    if (fs.existsSync(resolvedPath)) {
+      throw new Error(`Journal file already exists: ${resolvedPath}. Use --resume to continue it.`);
+    }
+
+    const journalDir = path.dirname(resolvedPath);
+    if (!fs.existsSync(journalDir)) {
+      fs.mkdirSync(journalDir, { recursive: true });
+    }
+
+    const journal = new MigrationJournal(resolvedPath);
+    journal.append({
+      kind: 'run',
+      operation,
+      startedAt: new Date().toISOString(),
+    });
+    return journal;
+  }
+
+  /**
+   * Reopen an existing journal file so a run can carry on where it stopped
+   * @param filePath Path of the journal file to resume
+   * @param operation The operation being resumed; must match the journal
+   * @returns The journal with all previously completed steps loaded
+   */
+  static resume(filePath: string, operation: JournalOperation): MigrationJournal {
+    const resolvedPath = path.resolve(filePath);
+    if (!fs.existsSync(resolvedPath)) {
+      throw new Error(`Journal file not found: ${resolvedPath}`);
+    }
+
+    const journal = new MigrationJournal(resolvedPath);
+    const lines = fs.readFileSync(resolvedPath, 'utf8').split('\n');
+    let runRecord: JournalRunRecord | undefined;
+
+    lines.forEach((line, index) => {
+      if (!line.trim()) {
+        return;
+      }
+
+      let record: JournalRecord;
+      try {
+        record = JSON.parse(line) as JournalRecord;
+      } catch {
+        // A crash can leave a partially written last line behind; anything
+        // before it is intact, so only the trailing line may be dropped.
+        if (index === lines.length - 1 || lines.slice(index + 1).every((rest) => !rest.trim())) {
+          return;
+        }
+        throw new Error(`Journal file ${resolvedPath} is corrupted at line ${index + 1}`);
+      }
+
+      if (record.kind === 'run') {
+        runRecord = runRecord ?? record;
+      } else {
+        journal.apply(record);
+      }
+    });
+
+    if (!runRecord) {
+      throw new Error(`Journal file ${resolvedPath} has no run record`);
+    }
+
+    if (runRecord.operation !== operation) {
+      throw new Error(
+        `Journal file ${resolvedPath} belongs to a ${runRecord.operation} run and cannot resume a ${operation} run`
+      );
+    }
+
+    return journal;
+  }
+
+  /**
+   * Build the default journal file path for a new run
+   * @param journalDir Directory journals are stored in
+   * @param operation The operation the journal belongs to
+   * @returns The journal file path
+   */
+  static defaultPath(journalDir: string, operation: JournalOperation): string {
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+    return path.join(path.resolve(journalDir), `${operation}-journal-${timestamp}.jsonl`);
+  }
+
+  /**
+   * List the journal files of an operation in a directory
+   * @param journalDir Directory journals are stored in
+   * @param operation The operation the journals belong to
+   * @returns The journal file paths, oldest first
+   */
+  static listPaths(journalDir: string, operation: JournalOperation): string[] {
+    const resolvedDir = path.resolve(journalDir);
+    if (!fs.existsSync(resolvedDir)) {
+      return [];
+    }
+
+    return fs
+      .readdirSync(resolvedDir)
+      .filter((fileName) => fileName.startsWith(`${operation}-journal-`) && fileName.endsWith('.jsonl'))
+      .sort()
+      .map((fileName) => path.join(resolvedDir, fileName));
+  }
+
+  get path(): string {
+    return this.filePath;
+  }
+
+  /**
+   * Record the snapshot of a member before any step is applied to it. Only the
+   * first snapshot is kept, so a resumed run keeps working from the member as
+   * it was before the migration renamed or deleted it.
+   * @param teamId The team ID
+   * @param member The member snapshot
+   */
+  recordMember(teamId: string, member: Member): void {
+    if (this.members.has(this.memberKey(teamId, member.subject))) {
+      return;
+    }
+
+    this.append({
+      kind: 'member',
+      teamId,
+      member,
+      recordedAt: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Record that a step completed successfully for a member
+   * @param teamId The team ID
+   * @param member The member the step was applied to
+   * @param step The completed step
+   * @param invitedEmail The email the invitation was sent to, if it differs from the member email
+   */
+  recordStep(teamId: string, member: Member, step: JournalStep, invitedEmail?: string): void {
+    this.append({
+      kind: 'step',
+      teamId,
+      subject: member.subject,
+      email: member.email,
+      step,
+      invitedEmail,
+      completedAt: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Record where the backup of a team taken before the run is stored
+   * @param teamId The team ID
+   * @param backupPath The backup file path
+   */
+  recordBackup(teamId: string, backupPath: string): void {
+    this.append({
+      kind: 'backup',
+      teamId,
+      path: backupPath,
+      recordedAt: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Record that every member of a team has been processed
+   * @param teamId The team ID
+   */
+  recordTeamCompleted(teamId: string): void {
+    this.append({
+      kind: 'team-complete',
+      teamId,
+      completedAt: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Check whether a step has already completed for a member
+   * @param teamId The team ID
+   * @param subject The member subject
+   * @param step The step to check
+   * @returns True if the step was completed by this run
+   */
+  isStepCompleted(teamId: string, subject: string, step: JournalStep): boolean {
+    return this.steps.has(this.stepKey(teamId, subject, step));
+  }
+
+  /**
+   * Check whether every member of a team has already been processed
+   * @param teamId The team ID
+   * @returns True if the team was completed by this run
+   */
+  isTeamCompleted(teamId: string): boolean {
+    return this.completedTeams.has(teamId);
+  }
+
+  /**
+   * Get the member snapshot recorded before the member was first touched
+   * @param teamId The team ID
+   * @param subject The member subject
+   * @returns The recorded snapshot, if any
+   */
+  getMember(teamId: string, subject: string): Member | undefined {
+    return this.members.get(this.memberKey(teamId, subject));
+  }
+
+  /**
+   * Get the IDs of the teams the run touched any member of
+   * @returns The team IDs, in the order they were first recorded
+   */
+  getTeamIds(): string[] {
+    return [...this.teamIds];
+  }
+
+  /**
+   * Get the snapshots of every member of a team the run touched
+   * @param teamId The team ID
+   * @returns The recorded snapshots
+   */
+  getRecordedMembers(teamId: string): Member[] {
+    return [...this.members.entries()]
+      .filter(([key, member]) => key === this.memberKey(teamId, member.subject))
+      .map(([, member]) => member);
+  }
+
+  /**
+   * Get the path of the backup taken before the run changed a team
+   * @param teamId The team ID
+   * @returns The backup file path, if a backup was recorded
+   */
+  getBackupPath(teamId: string): string | undefined {
+    return this.backups.get(teamId);
+  }
+
+  /**
+   * Get the members of a team that were started but have not been invited yet
+   * @param teamId The team ID
+   * @returns The recorded snapshots of the unfinished members
+   */
+  getUnfinishedMembers(teamId: string): Member[] {
+    return this.getRecordedMembers(teamId).filter(
+      (member) => !this.isStepCompleted(teamId, member.subject, 'invite')
+    );
+  }
+
+  /**
+   * Check whether a member is the result of an invitation sent by this run,
+   * rather than one of the accounts being migrated
+   * @param teamId The team ID
+   * @param member The member as returned by the API
+   * @returns True if the member was created by this run
+   */
+  isCreatedByRun(teamId: string, member: Member): boolean {
+    if (this.members.has(this.memberKey(teamId, member.subject))) {
+      return false;
+    }
+
+    const email = member.email.toLowerCase();
+    return [...this.steps.values()].some(
+      (record) =>
+        record.teamId === teamId &&
+        record.step === 'invite' &&
+        (record.invitedEmail ?? record.email).toLowerCase() === email
+    );
+  }
+
+  private append(record: JournalRecord): void {
+    if (this.fd === undefined) {
+      this.fd = fs.openSync(this.filePath, 'a');
+    }
+
+    fs.writeSync(this.fd, `${JSON.stringify(record)}\n`);
+    fs.fsyncSync(this.fd);
+
+    if (record.kind !== 'run') {
+      this.apply(record);
+    }
+  }
+
+  private apply(record: Exclude<JournalRecord, JournalRunRecord>): void {
+    switch (record.kind) {
+      case 'member': {
+        const key = this.memberKey(record.teamId, record.member.subject);
+        if (!this.members.has(key)) {
+          this.members.set(key, record.member);
+        }
+        this.teamIds.add(record.teamId);
+        break;
+      }
+      case 'step':
+        this.steps.set(this.stepKey(record.teamId, record.subject, record.step), record);
+        break;
+      case 'backup':
+        // A resumed run backs up the partly migrated team again; the first
+        // backup is the one holding the team as it was before the run
+        if (!this.backups.has(record.teamId)) {
+          this.backups.set(record.teamId, record.path);
+        }
+        break;
+      case 'team-complete':
+        this.completedTeams.add(record.teamId);
+        break;
+    }
+  }
+
+  private memberKey(teamId: string, subject: string): string {
+    return `${teamId}:${subject}`;
+  }
+
+  private stepKey(teamId: string, subject: string, step: JournalStep): string {
+    return `${teamId}:${subject}:${step}`;
+  }
+}
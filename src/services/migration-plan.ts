@@ -0,0 +1,213 @@
+import {
+  DeleteMemberRequest,
+  InviteMemberRequest,
+  Member,
+  UpdateMemberRequest,
+} from '../types/uniform-api';
+import { RemappedAccess } from './access-remapper';
+import { SkippedMember } from './member-selector';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+
+export const MIGRATION_PLAN_VERSION = 1;
+
+export interface PlannedMemberAction {
+  email: string;
+  subject: string;
+  name: string;
+  /** Whether the member is a team admin; left out by plans written before it was recorded */
+  isTeamAdmin?: boolean;
+  update?: UpdateMemberRequest;
+  delete?: DeleteMemberRequest;
+  /** Left out if the member's replacement account already exists */
+  invite?: InviteMemberRequest;
+  /** How the access remap changed the access the member is invited with */
+  remappedAccess?: RemappedAccess;
+}
+
+export interface TeamPlan {
+  teamId: string;
+  /** The API the team was planned against; plans written before teams could have their own API use the plan's */
+  apiUrl?: string;
+  memberCount: number;
+  membershipFingerprint: string;
+  actions: PlannedMemberAction[];
+  skipped: SkippedMember[];
+  unmappedEmails: string[];
+}
+
+export interface MigrationPlan {
+  version: number;
+  createdAt: string;
+  apiUrl: string;
+  markObsolete: boolean;
+  deleteMembers: boolean;
+  /** The deprovisioning strategy the plan was made with; plans written before strategies existed use the flags above */
+  deprovision?: string;
+  ignoredEmails: string[];
+  teams: TeamPlan[];
+}
+
+/**
+ * Serialize a value as JSON with object keys sorted, so equal values always
+ * produce the same string regardless of the key order the API returned
+ * @param value The value to serialize
+ * @returns The canonical JSON string
+ */
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, entryValue]) => entryValue !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([key, entryValue]) => `${JSON.stringify(key)}:${canonicalJson(entryValue)}`);
+    return `{${entries.join(',')}}`;
+  }
+
+  return JSON.stringify(value);
+}
+
+/**
+ * Compute a fingerprint of a team's membership. Any added or removed member,
+ * or a change to a member's name, admin flag or project access, changes the
+ * fingerprint.
+ * @param members The members of the team
+ * @returns A hex encoded SHA-256 fingerprint
+ */
+export function fingerprintMembers(members: Member[]): string {
+  const normalized = members
+    .map((member) => ({
+      subject: member.subject,
+      email: member.email.toLowerCase(),
+      name: member.name,
+      type: member.type,
+      isTeamAdmin: member.isTeamAdmin,
+      projects: member.projects,
+    }))
+    .sort((a, b) => (a.subject < b.subject ? -1 : a.subject > b.subject ? 1 : 0));
+
+  return crypto.createHash('sha256').update(canonicalJson(normalized)).digest('hex');
+}
+
+/**
+ * Build the default plan file path
+ * @param planDir Directory plans are stored in
+ * @returns The plan file path
+ */
+export function defaultPlanPath(planDir: string): string {
+  const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+  return path.join(path.resolve(planDir), `migration-plan-${timestamp}.json`);
+}
+
+/**
+ * Write a migration plan to disk
+ * @param plan The plan to write
+ * @param filePath The plan file path
+ */
+export function writePlan(plan: MigrationPlan, filePath: string): void {
+  const planDir = path.dirname(path.resolve(filePath));
+  if (!fs.existsSync(planDir)) {
+    fs.mkdirSync(planDir, { recursive: true });
+  }
+
+  fs.writeFileSync(filePath, JSON.stringify(plan, null, 2), 'utf8');
+}
+
+/**
+ * Check that the requests of a planned action only touch the member it is
+ * planned for, so a hand-edited or corrupted plan can't delete, rename or
+ * invite over a member it doesn't list
+ * @param action The planned action
+ * @param memberSubjects The subjects of the members the team plan lists, by lowercase email
+ * @param plannedSubjects The subjects of the actions checked before
+ * @returns What is wrong with the action, if anything
+ */
+function getActionProblem(
+  action: PlannedMemberAction,
+  memberSubjects: Map<string, string[]>,
+  plannedSubjects: Set<string>
+): string | undefined {
+  if (typeof action.subject !== 'string' || !action.subject || typeof action.email !== 'string') {
+    return 'it has no subject or email';
+  }
+
+  if (plannedSubjects.has(action.subject)) {
+    return `subject ${action.subject} is planned more than once`;
+  }
+
+  if (action.delete && action.delete.subject !== action.subject) {
+    return `it deletes ${action.delete.subject} instead of ${action.subject}`;
+  }
+
+  if (action.update && action.update.identity_subject !== action.subject) {
+    return `it updates ${action.update.identity_subject} instead of ${action.subject}`;
+  }
+
+  if (action.invite) {
+    if (typeof action.invite.email !== 'string' || !action.invite.email) {
+      return 'its invitation has no email';
+    }
+
+    const invitedSubjects = memberSubjects.get(action.invite.email.toLowerCase());
+    if (invitedSubjects && !invitedSubjects.includes(action.subject)) {
+      return `it invites ${action.invite.email}, the email of another member in the plan`;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Read and validate a migration plan from disk. Every request in the plan
+ * must belong to the member it is planned for.
+ * @param filePath The plan file path
+ * @returns The plan
+ */
+export function readPlan(filePath: string): MigrationPlan {
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`Plan file not found: ${filePath}`);
+  }
+
+  const plan = JSON.parse(fs.readFileSync(filePath, 'utf8')) as MigrationPlan;
+
+  if (plan.version !== MIGRATION_PLAN_VERSION) {
+    throw new Error(`Unsupported plan version ${plan.version} in ${filePath}`);
+  }
+
+  if (!Array.isArray(plan.teams)) {
+    throw new Error(`Plan file ${filePath} has no teams`);
+  }
+
+  for (const team of plan.teams) {
+    if (!team.teamId || !team.membershipFingerprint || !Array.isArray(team.actions)) {
+      throw new Error(`Plan file ${filePath} has an invalid team entry`);
+    }
+
+    // Emails of the members the plan lists, so an invitation can't target another one of them
+    const memberSubjects = new Map<string, string[]>();
+    for (const member of [...team.actions, ...(team.skipped ?? [])]) {
+      const email = String(member.email).toLowerCase();
+      memberSubjects.set(email, [...(memberSubjects.get(email) ?? []), member.subject]);
+    }
+
+    const plannedSubjects = new Set<string>();
+    for (const action of team.actions) {
+      const payloads = [action.update, action.delete, action.invite].filter(Boolean);
+      if (payloads.length === 0 || payloads.some((payload) => payload?.teamId !== team.teamId)) {
+        throw new Error(`Plan file ${filePath} has an invalid action for ${action.email} in team ${team.teamId}`);
+      }
+
+      const problem = getActionProblem(action, memberSubjects, plannedSubjects);
+      if (problem) {
+        throw new Error(`Plan file ${filePath} has an invalid action for ${action.email} in team ${team.teamId}: ${problem}`);
+      }
+      plannedSubjects.add(action.subject);
+    }
+  }
+
+  return plan;
+}
@@ -1,23 +1,115 @@
-import { UniformClient } from '../client/uniform-client';
+import { convertMemberProjectsToInvites, MembersClient } from '../client/members-client';
 import {
+  ApiResponse,
   BackupOptions,
   DeleteMemberRequest,
   InviteMemberRequest,
+  InviteMemberResponse,
   Member,
+  MemberSelectionRules,
   TeamConfig,
   UpdateMemberRequest,
 } from '../types/uniform-api';
+import { AccessRemapper, RemappedAccess } from './access-remapper';
+import {
+  deleteStrategy,
+  DeprovisionRequest,
+  DeprovisionStrategy,
+  markObsoleteStrategy,
+  OBSOLETE_NAME_PREFIX,
+} from './deprovision-strategy';
+import { EmailMapper } from './email-mapper';
+import { compareAccess, describeAccessChanges } from './member-access';
+import { BackupContents, createMemberBackup, getBackupTeamId, readBackup, writeBackup } from './member-backup';
+import { MemberSelector, SkippedMember } from './member-selector';
+import { JournalStep, MigrationJournal } from './migration-journal';
+import { MemberMutation, MigrationHooks } from './migration-hooks';
+import { fingerprintMembers, PlannedMemberAction, TeamPlan } from './migration-plan';
+import { defaultLogger, Logger, withLogContext } from './logger';
+import { planWaves, RolloutStatus, validateWaveOptions, Wave, WaveOptions } from './rollout-waves';
+import { runPool } from './worker-pool';
 import * as fs from 'fs';
 import * as path from 'path';
 
 export interface MigrationOptions {
   markObsolete: boolean;
   deleteMembers: boolean;
+  /**
+   * What happens to old accounts once their replacement is invited; replaces
+   * markObsolete and deleteMembers, which select a built-in strategy
+   */
+  deprovision?: DeprovisionStrategy;
   dryRun: boolean;
+  /** Whether invited members get an invitation email; defaults to true */
+  sendInvitationEmails?: boolean;
   backup: BackupOptions;
   ignoredEmails?: string[];
+  /** Accounts that are never deleted or renamed, however members are selected */
+  breakGlassEmails?: string[];
+  /** Most members a run may delete from a team, unless allowMassDelete is set */
+  maxDeletes?: number;
+  /** Most members a run may delete from a team, as a percentage of its members, unless allowMassDelete is set */
+  maxDeletePercent?: number;
+  allowMassDelete?: boolean;
+  journal?: MigrationJournal;
+  /** Journals of earlier runs, used to recognise the accounts their invitations created */
+  previousJournals?: MigrationJournal[];
+  emailMapper?: EmailMapper;
+  /** Changes the roles and custom permissions members are invited with; restores and rollbacks keep the backed up access */
+  accessRemapper?: AccessRemapper;
+  selectionRules?: MemberSelectionRules;
+  memberConcurrency?: number;
+  /** Migrate each team in waves, starting with a canary; without it, every member is migrated in one go */
+  waves?: WaveOptions;
+  allowTeamMismatch?: boolean;
+  /** Fail verification on obsolete accounts left, even if the deprovisioning strategy keeps old accounts */
+  failOnObsolete?: boolean;
+  hooks?: MigrationHooks;
+  logger?: Logger;
+}
+
+export { OBSOLETE_NAME_PREFIX };
+
+export type MemberOutcomeAction = JournalStep | 'skip';
+
+export type MemberOutcomeStatus = 'succeeded' | 'failed' | 'skipped' | 'already-migrated' | 'dry-run';
+
+/**
+ * What happened to a single member in a single step of a run
+ */
+export interface MemberOutcome {
+  teamId: string;
+  email: string;
+  subject: string;
+  action: MemberOutcomeAction;
+  status: MemberOutcomeStatus;
+  targetEmail?: string;
+  httpStatus?: number;
+  error?: string;
+  reason?: string;
+  startedAt: string;
+  completedAt: string;
+}
+
+/**
+ * Where a member was left at the end of a live run:
+ * - migrated: the new account exists, and the old one was deleted or marked obsolete as configured
+ * - old-account-kept: the new account exists, but the old one couldn't be deleted or marked obsolete
+ * - unchanged: the member has no new account and keeps the old one
+ * - compensated: the old account was deleted and the new one was gone, so the member was invited again
+ * - no-access: the old account was deleted, the new one was gone, and inviting the member again failed
+ */
+export type MemberFinalState = 'migrated' | 'old-account-kept' | 'unchanged' | 'compensated' | 'no-access';
+
+export interface MemberState {
+  email: string;
+  subject: string;
+  state: MemberFinalState;
+  detail?: string;
 }
 
+type MemberRef = Pick<Member, 'email' | 'subject'>;
+
 export interface MigrationResult {
   teamId: string;
   membersFound: number;
@@ -25,18 +117,114 @@ export interface MigrationResult {
   membersDeleted: number;
   invitationsSent: number;
   skippedMembers: number;
+  skipped: SkippedMember[];
+  membersAlreadyMigrated: number;
   backupCreated: boolean;
   backupPath?: string;
+  unmappedEmails: string[];
+  /** The members whose access the access remap changed, before and after */
+  remappedAccess: RemappedAccess[];
+  members: MemberOutcome[];
+  /** The final state of every member the run tried to migrate; live runs only */
+  memberStates: MemberState[];
+  /** How far the rollout got, when the team was migrated in waves */
+  rollout?: RolloutStatus;
+  errors: string[];
+}
+
+export interface RestoreResult {
+  success: boolean;
+  membersRestored: number;
+  membersUpdated: number;
+  membersUnchanged: number;
+  skipped: SkippedMember[];
+  unmappedEmails: string[];
+  members: MemberOutcome[];
   errors: string[];
 }
 
+export interface RollbackResult {
+  teamId: string;
+  success: boolean;
+  membersRenamedBack: number;
+  invitationsRemoved: number;
+  membersRecreated: number;
+  members: MemberOutcome[];
+  errors: string[];
+}
+
+export interface AccessDrift {
+  email: string;
+  newEmail: string;
+  lost: string[];
+  gained: string[];
+}
+
+export interface VerificationResult {
+  teamId: string;
+  membersVerified: number;
+  missing: string[];
+  drifted: AccessDrift[];
+  obsoleteAccounts: string[];
+  /** Whether the obsolete accounts left fail the verification; they don't if the deprovisioning strategy keeps old accounts */
+  obsoleteAccountsFail: boolean;
+  skipped: SkippedMember[];
+  errors: string[];
+  /** Whether the team matches the backup */
+  passed: boolean;
+}
+
+/**
+ * How far earlier runs got with a member, judged from the team's current members
+ */
+interface MigrationProgress {
+  /** Why nothing is left to do for the member; undefined if any step remains */
+  alreadyMigrated?: string;
+  /** Whether the deprovisioning strategy has nothing left to do for the member */
+  deprovisioned: boolean;
+  /** The account replacing the member, if it already exists */
+  replacement?: Member;
+}
+
+/**
+ * A member whose old account a run deletes or changes
+ */
+interface OldAccountTarget extends MemberRef {
+  method: DeprovisionRequest['method'];
+}
+
+/**
+ * A member whose old account was deleted, waiting for the accounts of the
+ * batch it was migrated in to be checked
+ */
+interface DeletedAccountCheck {
+  member: MemberRef;
+  inviteRequest: InviteMemberRequest | undefined;
+  apiKey: string;
+}
+
+/**
+ * How a backup differs from the current members of a team
+ */
+interface RestoreDiff {
+  missing: Member[];
+  drifted: { backup: Member; current: Member; changes: string[] }[];
+  unchanged: Member[];
+}
+
 export class MigrationService {
-  private client: UniformClient;
+  private client: MembersClient;
   private options: MigrationOptions;
+  private logger: Logger;
+  private hooks: MigrationHooks;
+  private deprovision?: DeprovisionStrategy;
   //private readonly defaultIgnoredEmails = ["artemn@uniform.dev"];
   private readonly defaultIgnoredEmails = [];
+  private readonly globalSelector?: MemberSelector;
+  // Deleted accounts to check once the current batch of members is done, by team run
+  private readonly deletedAccountChecks = new WeakMap<MigrationResult, DeletedAccountCheck[]>();
 
-  constructor(client: UniformClient, options: MigrationOptions) {
+  constructor(client: MembersClient, options: MigrationOptions) {
     this.client = client;
     this.options = {
       ...options,
@@ -45,6 +233,19 @@ export class MigrationService {
         ...this.defaultIgnoredEmails,
       ],
     };
+    this.logger = options.logger || defaultLogger;
+    this.hooks = options.hooks || {};
+    this.deprovision =
+      options.deprovision ??
+      (options.deleteMembers ? deleteStrategy() : options.markObsolete ? markObsoleteStrategy() : undefined);
+
+    if (options.waves) {
+      validateWaveOptions(options.waves);
+    }
+
+    if (options.selectionRules) {
+      this.globalSelector = new MemberSelector(options.selectionRules, 'global');
+    }
   }
 
   /**
@@ -53,23 +254,25 @@ export class MigrationService {
    * @returns Migration results
    */
   async migrateTeam(teamConfig: TeamConfig): Promise<MigrationResult> {
+    const result = await this.migrateTeamMembers(teamConfig);
+    await this.hooks.onTeamCompleted?.({ operation: 'migrate', teamId: teamConfig.teamId, result });
+    return result;
+  }
+
+  private async migrateTeamMembers(teamConfig: TeamConfig): Promise<MigrationResult> {
     const { teamId, apiKey } = teamConfig;
-    
-    const result: MigrationResult = {
-      teamId,
-      membersFound: 0,
-      membersMarkedObsolete: 0,
-      membersDeleted: 0,
-      invitationsSent: 0,
-      skippedMembers: 0,
-      backupCreated: false,
-      errors: [],
-    };
+    const result = this.createResult(teamId);
+
+    this.logger.info(`Starting migration for team: ${teamId}`);
+    this.logger.info(`Mode: ${this.options.dryRun ? 'DRY RUN' : 'LIVE'}`);
+    this.logger.info(`Backup enabled: ${this.options.backup.enabled}`);
+    this.logger.info(`Ignored emails: ${this.options.ignoredEmails?.join(', ') || 'None'}`);
 
-    console.log(`\nStarting migration for team: ${teamId}`);
-    console.log(`Mode: ${this.options.dryRun ? 'DRY RUN' : 'LIVE'}`);
-    console.log(`Backup enabled: ${this.options.backup.enabled}`);
-    console.log(`Ignored emails: ${this.options.ignoredEmails?.join(', ') || 'None'}`);
+    const journal = this.options.journal;
+    if (journal?.isTeamCompleted(teamId)) {
+      this.logger.info(`Team ${teamId} was already completed according to journal ${journal.path}, skipping`);
+      return result;
+    }
     
     try {
       // Get all members for the team
@@ -83,363 +286,2524 @@ export class MigrationService {
       const members = membersResponse.data;
       result.membersFound = members.length;
       
-      console.log(`Found ${members.length} members in team ${teamId}`);
+      this.logger.info(`Found ${members.length} members in team ${teamId}`);
+
+      const targets = this.getOldAccountTargets(teamConfig, members);
+      const safetyProblems = this.getSafetyProblems(teamId, members, targets);
+      if (safetyProblems.length > 0) {
+        safetyProblems.forEach((problem) => this.logger.error(problem));
+        result.errors.push(...safetyProblems);
+        return result;
+      }
 
       // Create backup if enabled
-      if (this.options.backup.enabled && members.length > 0) {
-        try {
-          const backupResult = await this.backupMembers(teamId, members);
-          result.backupCreated = backupResult.success;
-          result.backupPath = backupResult.path;
-          
-          if (backupResult.success) {
-            console.log(`Backup created at: ${backupResult.path}`);
-          } else {
-            console.error(`Failed to create backup: ${backupResult.error}`);
-            result.errors.push(`Failed to create backup: ${backupResult.error}`);
-            
-            // If backup is required for deletion and it failed, abort the migration
-            if (this.options.deleteMembers && !this.options.dryRun) {
-              console.error('Aborting migration because backup failed and delete members is enabled');
-              result.errors.push('Migration aborted because backup failed and delete members is enabled');
-              return result;
-            }
-          }
-        } catch (error) {
-          const errorMessage = error instanceof Error ? error.message : String(error);
-          console.error(`Error creating backup: ${errorMessage}`);
-          result.errors.push(`Error creating backup: ${errorMessage}`);
-          
-          // If backup is required for deletion and it failed, abort the migration
-          if (this.options.deleteMembers && !this.options.dryRun) {
-            console.error('Aborting migration because backup failed and delete members is enabled');
-            result.errors.push('Migration aborted because backup failed and delete members is enabled');
-            return result;
-          }
-        }
+      const deletesMembers = targets.some((target) => target.method === 'delete');
+      if (!(await this.createBackup(teamId, members, result, deletesMembers))) {
+        return result;
+      }
+
+      // Members deleted by an interrupted run no longer show up in the team,
+      // but still need the remaining steps recorded for them in the journal
+      const unfinishedMembers = journal
+        ? journal.getUnfinishedMembers(teamId).filter(
+            (unfinished) => !members.some((member) => member.subject === unfinished.subject)
+          )
+        : [];
+
+      if (unfinishedMembers.length > 0) {
+        this.logger.info(`Resuming ${unfinishedMembers.length} members no longer present in team ${teamId}`);
       }
 
+      const teamSelector = this.createTeamSelector(teamConfig);
+
       // Process each member
-      for (const member of members) {
+      const migrateMember = async (liveMember: Member) => {
+        // Work from the snapshot taken before an interrupted run renamed the member
+        const member = journal?.getMember(teamId, liveMember.subject) ?? liveMember;
+
         try {
-          // Skip ignored emails
-          if (this.shouldIgnoreMember(member)) {
-            console.log(`Skipping ignored member: ${member.name} (${member.email})`);
-            result.skippedMembers++;
-            continue;
+          // Skip ignored emails and members not selected by the rules
+          const skipReason = this.getSkipReason(member, teamSelector);
+          if (skipReason) {
+            this.skipMember(member, skipReason, result);
+            return;
+          }
+
+          // Skip accounts created by the invitations of an interrupted run
+          if (journal?.isCreatedByRun(teamId, member)) {
+            this.skipMember(member, 'Invited by this run', result);
+            return;
+          }
+
+          // Skip members an earlier run already migrated, and the accounts
+          // that replace them
+          const progress = this.getMigrationProgress(liveMember, members, teamId);
+          if (progress.alreadyMigrated) {
+            this.skipMigratedMember(member, progress.alreadyMigrated, result);
+            return;
           }
           
-          await this.processMember(member, teamConfig, result);
+          await this.withMemberHooks(teamId, member, result, () =>
+            this.processMember(member, teamConfig, result, progress)
+          );
         } catch (error) {
           const errorMessage = error instanceof Error ? error.message : String(error);
           result.errors.push(`Error processing member ${member.email}: ${errorMessage}`);
-          console.error(`Error processing member ${member.email}:`, error);
+          this.logger.error(`Error processing member ${member.email}`, { error });
         }
+      };
+
+      const teamMembers = [...members, ...unfinishedMembers];
+      if (this.options.waves) {
+        // Members that are skipped anyway don't count towards any wave
+        const isMigrated = (liveMember: Member) => this.isMigratedByRun(liveMember, members, teamConfig, teamSelector);
+        await this.forEachMember(teamMembers.filter((liveMember) => !isMigrated(liveMember)), (liveMember) => liveMember.email, migrateMember);
+        await this.checkDeletedAccounts(result);
+        await this.migrateInWaves(teamId, planWaves(teamMembers.filter(isMigrated), this.options.waves), result, migrateMember);
+      } else {
+        await this.forEachMember(teamMembers, (liveMember) => liveMember.email, migrateMember);
+        await this.checkDeletedAccounts(result);
+      }
+
+      if (result.errors.length === 0 && !result.rollout?.stoppedReason) {
+        this.recordTeamCompleted(teamId);
       }
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
       result.errors.push(`Error migrating team ${teamId}: ${errorMessage}`);
-      console.error(`Error migrating team ${teamId}:`, error);
+      this.logger.error(`Error migrating team ${teamId}`, { error });
     }
 
     return result;
   }
 
   /**
-   * Backup team members to a JSON file
-   * @param teamId The team ID
-   * @param members The members to backup
-   * @returns Backup result
+   * Check whether a migration would migrate a member rather than skip it
+   * @param liveMember The member as it is now
+   * @param members The current members of the team
+   * @param teamConfig The team configuration
+   * @param teamSelector The team's member selector
+   * @returns True if the member would be migrated
    */
-  private async backupMembers(teamId: string, members: Member[]): Promise<{ success: boolean; path?: string; error?: string }> {
-    try {
-      // Create backup directory if it doesn't exist
-      const backupDir = path.resolve(this.options.backup.path);
-      if (!fs.existsSync(backupDir)) {
-        fs.mkdirSync(backupDir, { recursive: true });
-      }
-
-      // Create backup file with timestamp
-      const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-      const backupFileName = `team-${teamId}-backup-${timestamp}.json`;
-      const backupFilePath = path.join(backupDir, backupFileName);
-
-      // Write members to backup file
-      fs.writeFileSync(backupFilePath, JSON.stringify(members, null, 2), 'utf8');
-
-      return {
-        success: true,
-        path: backupFilePath
-      };
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      return {
-        success: false,
-        error: errorMessage
-      };
-    }
-  }
+  private isMigratedByRun(
+    liveMember: Member,
+    members: Member[],
+    teamConfig: TeamConfig,
+    teamSelector: MemberSelector | undefined
+  ): boolean {
+    const { teamId } = teamConfig;
+    const journal = this.options.journal;
+    const member = journal?.getMember(teamId, liveMember.subject) ?? liveMember;
 
-  /**
-   * Check if a member should be ignored based on email
-   * @param member The member to check
-   * @returns True if the member should be ignored
-   */
-  private shouldIgnoreMember(member: Member): boolean {
     return (
-      this.options.ignoredEmails?.some(
-        (email) => email.toLowerCase() === member.email.toLowerCase()
-      ) || false
+      !this.getSkipReason(member, teamSelector) &&
+      !journal?.isCreatedByRun(teamId, member) &&
+      !this.getMigrationProgress(liveMember, members, teamId).alreadyMigrated
     );
   }
 
   /**
-   * Process a single member
-   * @param member The member to process
-   * @param teamConfig The team configuration
-   * @param result The migration result to update
+   * Count the members whose migration went wrong: they were left in another
+   * state than migrated, or one of their steps failed. A member counts once,
+   * however many errors it caused.
+   * @param members The members to check
+   * @param result The migration result of the team run
+   * @returns The number of members with errors
    */
-  private async processMember(
-    member: Member,
-    teamConfig: TeamConfig,
-    result: MigrationResult
-  ): Promise<void> {
-    const { teamId, apiKey } = teamConfig;
-    
-    console.log(`Processing member: ${member.name} (${member.email})`);
-
-    // Delete the member if configured
-    if (this.options.deleteMembers) {
-      await this.deleteMember(member, teamConfig, result);
-    }
-    // Mark the existing member as obsolete if configured (and not deleting)
-    else if (this.options.markObsolete) {
-      await this.markMemberAsObsolete(member, teamConfig, result);
-    }
-
-    // Send a new invitation with the same roles
-    await this.sendNewInvitation(member, teamConfig, result);
+  private countMembersWithErrors(members: Member[], result: MigrationResult): number {
+    const failed = new Set([
+      ...result.memberStates.filter((memberState) => memberState.state !== 'migrated').map((memberState) => memberState.subject),
+      ...result.members.filter((outcome) => outcome.status === 'failed').map((outcome) => outcome.subject),
+    ]);
+    return members.filter((member) => failed.has(member.subject)).length;
   }
 
   /**
-   * Mark a member as obsolete
-   * @param member The member to mark as obsolete
-   * @param teamConfig The team configuration
+   * Migrate a team's members wave by wave. Before each wave after the first,
+   * the share of migrated members with errors is checked against the error
+   * budget, the run waits as scheduled, and the beforeWave hook may stop it.
+   * @param teamId The team ID
+   * @param waves The waves to migrate
    * @param result The migration result to update
+   * @param migrateMember Migrates a single member
    */
-  private async markMemberAsObsolete(
-    member: Member,
-    teamConfig: TeamConfig,
-    result: MigrationResult
+  private async migrateInWaves(
+    teamId: string,
+    waves: Wave<Member>[],
+    result: MigrationResult,
+    migrateMember: (member: Member) => Promise<void>
   ): Promise<void> {
-    const { teamId, apiKey } = teamConfig;
-    const obsoleteName = `OBSOLETE - ${member.name}`;
+    const waveOptions = this.options.waves!;
+    const maxErrorPercent = waveOptions.maxErrorPercent ?? 0;
+    const rollout: RolloutStatus = {
+      wavesPlanned: waves.length,
+      completedWaves: [],
+      membersNotStarted: waves.reduce((count, wave) => count + wave.members.length, 0),
+    };
+    result.rollout = rollout;
 
-    console.log(
-      `Marking member as obsolete: ${member.name} -> ${obsoleteName}`
+    this.logger.info(
+      `Migrating team ${teamId} in ${waves.length} waves: ${waves.map((wave) => `${wave.name} (${wave.members.length})`).join(', ') || 'none'}`
     );
 
-    if (this.options.dryRun) {
-      console.log(`[DRY RUN] Would mark ${member.email} as obsolete`);
-      result.membersMarkedObsolete++;
-      return;
-    }
+    let membersMigrated = 0;
+    let membersWithErrors = 0;
 
-    // Convert member's projects to the format needed for the update request
-    const projects = this.client.convertMemberProjectsToInvites(member);
+    for (const [index, wave] of waves.entries()) {
+      if (index > 0) {
+        // Empty waves so far leave nothing to check the budget against
+        const errorPercent = membersMigrated > 0 ? (membersWithErrors / membersMigrated) * 100 : 0;
+        if (errorPercent > maxErrorPercent) {
+          rollout.stoppedReason =
+            `Error budget exceeded after ${rollout.lastCompletedWave}: ${membersWithErrors} of ${membersMigrated} ` +
+            `migrated members (${errorPercent.toFixed(1)}%) have errors, the limit is ${maxErrorPercent}%`;
+          break;
+        }
 
-    const updateRequest: UpdateMemberRequest = {
-      identity_subject: member.subject,
-      teamId,
-      name: obsoleteName,
-      isAdmin: member.isTeamAdmin,
-      projects: projects,
-    };
+        const pauseMs = index === 1 && waves[0].name === 'canary' ? (waveOptions.canaryPauseMs ?? waveOptions.intervalMs) : waveOptions.intervalMs;
+        if (pauseMs && !this.options.dryRun) {
+          this.logger.info(`Waiting ${pauseMs / 1000}s before ${wave.name} of team ${teamId}`);
+          await new Promise((resolve) => setTimeout(resolve, pauseMs));
+        }
+      }
 
-    console.log(
-      `Sending update request for ${member.email}:`,
-      JSON.stringify(updateRequest, null, 2)
-    );
+      const proceed = await this.hooks.beforeWave?.({
+        teamId,
+        wave: wave.name,
+        index,
+        total: waves.length,
+        members: wave.members.map((member) => ({ email: member.email, subject: member.subject })),
+        completedWaves: [...rollout.completedWaves],
+      });
+      if (proceed === false) {
+        rollout.stoppedReason = `Stopped by the beforeWave hook before ${wave.name}`;
+        break;
+      }
 
-    const response = await this.client.updateMember(updateRequest, apiKey);
+      this.logger.info(`Starting ${wave.name} of team ${teamId} with ${wave.members.length} members`);
+      const waveErrorsBefore = result.errors.length;
+      await this.forEachMember(wave.members, (member) => member.email, migrateMember);
+      await this.checkDeletedAccounts(result);
 
-    if (response.status >= 200 && response.status < 300) {
-      console.log(`Successfully marked ${member.email} as obsolete`);
-      result.membersMarkedObsolete++;
+      membersMigrated += wave.members.length;
+      membersWithErrors += this.countMembersWithErrors(wave.members, result);
+      rollout.membersNotStarted -= wave.members.length;
+      rollout.completedWaves.push({
+        name: wave.name,
+        members: wave.members.length,
+        errors: result.errors.length - waveErrorsBefore,
+        completedAt: new Date().toISOString(),
+      });
+      rollout.lastCompletedWave = wave.name;
+    }
+
+    if (rollout.stoppedReason) {
+      this.logger.error(
+        `Rollout of team ${teamId} stopped: ${rollout.stoppedReason}. ` +
+          `Last completed wave: ${rollout.lastCompletedWave ?? 'none'}; ${rollout.membersNotStarted} members not started`
+      );
     } else {
-      const errorMessage = `Failed to mark ${member.email} as obsolete: ${response.statusText}`;
-      console.error(errorMessage);
-      console.error(`Response data:`, JSON.stringify(response.data, null, 2));
-      result.errors.push(errorMessage);
+      this.logger.info(`Rollout of team ${teamId} completed all ${waves.length} waves`);
     }
   }
 
   /**
-   * Send a new invitation to a member
-   * @param member The member to invite
-   * @param teamConfig The team configuration
-   * @param result The migration result to update
+   * Plan the migration of a team without changing anything. The plan lists the
+   * exact requests a migration with the current options would send.
+   * @param teamConfig The team configuration with ID and API key
+   * @returns The team plan
    */
-  private async sendNewInvitation(
-    member: Member,
-    teamConfig: TeamConfig,
-    result: MigrationResult
-  ): Promise<void> {
+  async planTeam(teamConfig: TeamConfig): Promise<TeamPlan> {
     const { teamId, apiKey } = teamConfig;
-    const projects = this.client.convertMemberProjectsToInvites(member);
 
-    console.log(
-      `Sending new invitation to ${member.email} with ${projects.length} projects`
-    );
+    this.logger.info(`Planning migration for team: ${teamId}`);
 
-    if (this.options.dryRun) {
-      console.log(`[DRY RUN] Would send invitation to ${member.email}`);
-      result.invitationsSent++;
-      return;
+    const membersResponse = await this.client.getMembers(teamId, apiKey);
+
+    if (membersResponse.status !== 200) {
+      throw new Error(`Failed to get members for team ${teamId}: ${membersResponse.statusText}`);
     }
 
-    const inviteRequest: InviteMemberRequest = {
-      email: member.email,
-      name: member.name,
-      isAdmin: member.isTeamAdmin,
+    const members = membersResponse.data;
+    const plan: TeamPlan = {
       teamId,
-      projects,
-      sendEmail: true,
+      apiUrl: this.client.baseUrl,
+      memberCount: members.length,
+      membershipFingerprint: fingerprintMembers(members),
+      actions: [],
+      skipped: [],
+      unmappedEmails: [],
     };
 
-    console.log(
-      `Sending invitation request for ${member.email}:`,
-      JSON.stringify(inviteRequest, null, 2)
-    );
+    const teamSelector = this.createTeamSelector(teamConfig);
+
+    for (const member of members) {
+      const skipReason = this.getSkipReason(member, teamSelector);
+      if (skipReason) {
+        plan.skipped.push({ email: member.email, subject: member.subject, reason: skipReason });
+        continue;
+      }
 
-    const response = await this.client.inviteMember(inviteRequest, apiKey);
+      const progress = this.getMigrationProgress(member, members, teamId);
+      if (progress.alreadyMigrated) {
+        plan.skipped.push({ email: member.email, subject: member.subject, reason: `Already migrated: ${progress.alreadyMigrated}` });
+        continue;
+      }
 
-    if (response.status >= 200 && response.status < 300) {
-      console.log(`Successfully sent invitation to ${member.email}`);
-      result.invitationsSent++;
-    } else {
-      const errorMessage = `Failed to send invitation to ${member.email}: ${response.statusText}`;
-      console.error(errorMessage);
-      console.error(`Response data:`, JSON.stringify(response.data, null, 2));
-      result.errors.push(errorMessage);
+      if (this.options.emailMapper && !this.resolveInviteEmail(member).mapped) {
+        plan.unmappedEmails.push(member.email);
+      }
+
+      const action: PlannedMemberAction = {
+        email: member.email,
+        subject: member.subject,
+        name: member.name,
+        isTeamAdmin: member.isTeamAdmin,
+      };
+
+      const deprovisionRequest = this.getDeprovisionRequest(member, teamId);
+      if (deprovisionRequest?.method === 'delete') {
+        action.delete = deprovisionRequest.request;
+      } else if (deprovisionRequest) {
+        action.update = deprovisionRequest.request;
+      }
+
+      if (!progress.replacement) {
+        action.invite = this.buildInviteRequest(member, teamId, true);
+        action.remappedAccess = this.options.accessRemapper?.remap(member);
+      }
+
+      plan.actions.push(action);
+    }
+
+    const safetyProblems = this.getSafetyProblems(teamId, members, this.getPlannedTargets(plan));
+    if (safetyProblems.length > 0) {
+      throw new Error(safetyProblems.join('; '));
     }
+
+    this.logger.info(`Planned ${plan.actions.length} members and skipped ${plan.skipped.length} of ${members.length} in team ${teamId}`);
+
+    return plan;
   }
 
   /**
-   * Delete a member from a team
-   * @param member The member to delete
-   * @param teamConfig The team configuration
-   * @param result The migration result to update
+   * Check that a team's live membership still matches the one a plan was made from
+   * @param teamPlan The team plan
+   * @param teamConfig The team configuration with ID and API key
+   * @returns The reason the plan can no longer be applied, if any
    */
-  private async deleteMember(member: Member, teamConfig: TeamConfig, result: MigrationResult): Promise<void> {
-    const { teamId, apiKey } = teamConfig;
-    
-    console.log(`Deleting member: ${member.name} (${member.email})`);
-    
-    if (this.options.dryRun) {
-      console.log(`[DRY RUN] Would delete ${member.email}`);
-      result.membersDeleted++;
-      return;
-    }
+  async checkPlanIsCurrent(teamPlan: TeamPlan, teamConfig: TeamConfig): Promise<string | undefined> {
+    const membersResponse = await this.client.getMembers(teamConfig.teamId, teamConfig.apiKey);
 
-    const deleteRequest: DeleteMemberRequest = {
-      teamId,
-      subject: member.subject
-    };
+    if (membersResponse.status !== 200) {
+      return `Failed to get members for team ${teamConfig.teamId}: ${membersResponse.statusText}`;
+    }
 
-    console.log(`Sending delete request for ${member.email}:`, JSON.stringify(deleteRequest, null, 2));
-    
-    const response = await this.client.deleteMember(deleteRequest, apiKey);
-    
-    if (response.status >= 200 && response.status < 300) {
-      console.log(`Successfully deleted ${member.email}`);
-      result.membersDeleted++;
-    } else {
-      const errorMessage = `Failed to delete ${member.email}: ${response.statusText}`;
-      console.error(errorMessage);
-      console.error(`Response data:`, JSON.stringify(response.data, null, 2));
-      result.errors.push(errorMessage);
+    if (fingerprintMembers(this.getMembersBeforeRun(teamConfig.teamId, membersResponse.data)) !== teamPlan.membershipFingerprint) {
+      return `Membership of team ${teamConfig.teamId} has changed since the plan was created`;
     }
+
+    return undefined;
   }
 
   /**
-   * Restore members from a backup file
-   * @param backupFilePath Path to the backup file
-   * @param teamConfig Team configuration
-   * @returns Restore result
+   * Get a team's membership as it was before the journaled run changed it:
+   * accounts its invitations created are left out, and the members it renamed
+   * or deleted are put back as recorded. Without a journal, the membership is
+   * returned as it is.
+   * @param teamId The team ID
+   * @param members The members of the team as returned by the API
+   * @returns The members before the run
    */
-  async restoreFromBackup(backupFilePath: string, teamConfig: TeamConfig): Promise<{
-    success: boolean;
-    membersRestored: number;
-    errors: string[];
-  }> {
-    const result = {
-      success: false,
-      membersRestored: 0,
-      errors: [] as string[],
-    };
+  private getMembersBeforeRun(teamId: string, members: Member[]): Member[] {
+    const journal = this.options.journal;
+    if (!journal) {
+      return members;
+    }
 
-    console.log(`\nRestoring members for team: ${teamConfig.teamId}`);
-    console.log(`From backup file: ${backupFilePath}`);
-    console.log(`Mode: ${this.options.dryRun ? 'DRY RUN' : 'LIVE'}`);
+    const remaining = members
+      .filter((member) => !journal.isCreatedByRun(teamId, member))
+      .map((member) => journal.getMember(teamId, member.subject) ?? member);
+    const removed = journal
+      .getRecordedMembers(teamId)
+      .filter((snapshot) => !members.some((member) => member.subject === snapshot.subject));
+    return [...remaining, ...removed];
+  }
 
-    try {
-      // Check if backup file exists
-      if (!fs.existsSync(backupFilePath)) {
-        const error = `Backup file not found: ${backupFilePath}`;
-        console.error(error);
-        result.errors.push(error);
-        return result;
-      }
+  /**
+   * Check, before anything is changed, that migrating a team or applying its
+   * plan keeps the team manageable: the last team admin and break-glass
+   * accounts must not be deleted or renamed, and no more members may be
+   * deleted than the configured limits allow
+   * @param teamConfig The team configuration with ID and API key
+   * @param teamPlan The plan to apply, if the team is migrated from a plan
+   * @returns The reasons the team can't be migrated safely; empty if it can
+   */
+  async checkSafety(teamConfig: TeamConfig, teamPlan?: TeamPlan): Promise<string[]> {
+    const { teamId, apiKey } = teamConfig;
+    const membersResponse = await this.client.getMembers(teamId, apiKey);
 
-      // Read backup file
-      const backupData = fs.readFileSync(backupFilePath, 'utf8');
-      const members = JSON.parse(backupData) as Member[];
+    if (membersResponse.status !== 200) {
+      return [`Failed to get members for team ${teamId}: ${membersResponse.statusText}`];
+    }
 
-      console.log(`Found ${members.length} members in backup file`);
+    const members = membersResponse.data;
+    return this.getSafetyProblems(
+      teamId,
+      members,
+      teamPlan ? this.getPlannedTargets(teamPlan) : this.getOldAccountTargets(teamConfig, members)
+    );
+  }
 
-      if (this.options.dryRun) {
-        console.log(`[DRY RUN] Would restore ${members.length} members`);
-        result.success = true;
-        return result;
-      }
+  /**
+   * Check that a team's API key is accepted by the API, by reading the
+   * team's members. Nothing is changed.
+   * @param teamConfig The team configuration with ID and API key
+   * @returns The reason the API key can't be used, if any
+   */
+  async checkApiKey(teamConfig: TeamConfig): Promise<string | undefined> {
+    const { teamId, apiKey, apiKeySource } = teamConfig;
+    const membersResponse = await this.client.getMembers(teamId, apiKey, false);
 
-      // Process each member
-      for (const member of members) {
-        try {
-          // Skip ignored emails
-          if (this.shouldIgnoreMember(member)) {
-            console.log(`Skipping ignored member: ${member.name} (${member.email})`);
-            continue;
-          }
+    if (membersResponse.status === 401 || membersResponse.status === 403) {
+      return `API key ${apiKeySource ? `from ${apiKeySource} ` : ''}was rejected for team ${teamId}: ${membersResponse.status} ${membersResponse.statusText}`;
+    }
 
-          // Send invitation for the member
-          await this.sendNewInvitation(member, teamConfig, {
-            teamId: teamConfig.teamId,
-            membersFound: 0,
-            membersMarkedObsolete: 0,
-            membersDeleted: 0,
-            invitationsSent: 0,
-            skippedMembers: 0,
-            backupCreated: false,
-            errors: [],
-          });
+    if (membersResponse.status !== 200) {
+      return `Failed to get members for team ${teamId}: ${membersResponse.status} ${membersResponse.statusText}`;
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Apply a previously generated team plan, sending exactly the planned requests.
+   * Refuses to change anything if the team's membership no longer matches the plan.
+   * With a journal, the steps are recorded like those of a migration, so an
+   * interrupted apply can be resumed and an applied plan rolled back; a
+   * resumed apply checks the plan against the membership before the run.
+   * @param teamPlan The team plan
+   * @param teamConfig The team configuration with ID and API key
+   * @returns Migration results
+   */
+  async applyTeamPlan(teamPlan: TeamPlan, teamConfig: TeamConfig): Promise<MigrationResult> {
+    const result = await this.applyPlannedActions(teamPlan, teamConfig);
+    await this.hooks.onTeamCompleted?.({ operation: 'apply', teamId: teamConfig.teamId, result });
+    return result;
+  }
+
+  private async applyPlannedActions(teamPlan: TeamPlan, teamConfig: TeamConfig): Promise<MigrationResult> {
+    const { teamId, apiKey } = teamConfig;
+    const result = this.createResult(teamId);
+
+    this.logger.info(`Applying plan for team: ${teamId}`);
+    this.logger.info(`Mode: ${this.options.dryRun ? 'DRY RUN' : 'LIVE'}`);
+
+    if (teamPlan.teamId !== teamId) {
+      result.errors.push(`Plan for team ${teamPlan.teamId} cannot be applied to team ${teamId}`);
+      return result;
+    }
+
+    const journal = this.options.journal;
+    if (journal?.isTeamCompleted(teamId)) {
+      this.logger.info(`Team ${teamId} was already completed according to journal ${journal.path}, skipping`);
+      return result;
+    }
+
+    try {
+      // Re-read the team right before changing it, so the plan is checked
+      // against the membership the requests are actually sent to
+      const membersResponse = await this.client.getMembers(teamId, apiKey);
+
+      if (membersResponse.status !== 200) {
+        result.errors.push(`Failed to get members: ${membersResponse.statusText}`);
+        return result;
+      }
+
+      const members = membersResponse.data;
+      result.membersFound = members.length;
+      result.skippedMembers = teamPlan.skipped.length;
+      result.skipped = [...teamPlan.skipped];
+      teamPlan.skipped.forEach((skipped) =>
+        this.recordOutcome(result, skipped, 'skip', { status: 'skipped', reason: skipped.reason })
+      );
+
+      if (fingerprintMembers(this.getMembersBeforeRun(teamId, members)) !== teamPlan.membershipFingerprint) {
+        const errorMessage = `Refusing to apply plan: membership of team ${teamId} has changed since the plan was created`;
+        this.logger.error(errorMessage);
+        result.errors.push(errorMessage);
+        return result;
+      }
+
+      const deletesMembers = teamPlan.actions.some((action) => action.delete);
+      const safetyProblems = this.getSafetyProblems(teamId, members, this.getPlannedTargets(teamPlan));
+      if (safetyProblems.length > 0) {
+        safetyProblems.forEach((problem) => this.logger.error(problem));
+        result.errors.push(...safetyProblems);
+        return result;
+      }
+
+      if (!(await this.createBackup(teamId, members, result, deletesMembers))) {
+        return result;
+      }
+
+      await this.forEachMember(teamPlan.actions, (action) => action.email, async (action) => {
+        try {
+          // Work from the snapshot taken before an interrupted run renamed or deleted the member
+          const member = journal?.getMember(teamId, action.subject) ?? members.find((live) => live.subject === action.subject);
+          if (!member) {
+            throw new Error(`${action.subject} is not a member of team ${teamId}`);
+          }
+          await this.withMemberHooks(teamId, action, result, () => this.applyPlannedAction(action, member, apiKey, result));
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : String(error);
+          result.errors.push(`Error processing member ${action.email}: ${errorMessage}`);
+          this.logger.error(`Error processing member ${action.email}`, { error });
+        }
+      });
+      await this.checkDeletedAccounts(result);
+
+      if (result.errors.length === 0) {
+        this.recordTeamCompleted(teamId);
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      result.errors.push(`Error applying plan for team ${teamId}: ${errorMessage}`);
+      this.logger.error(`Error applying plan for team ${teamId}`, { error });
+    }
+
+    return result;
+  }
+
+  /**
+   * Send the planned requests for a single member, skipping the steps the
+   * journal shows an interrupted run already completed
+   * @param action The planned member action
+   * @param member The member the action is planned for, as it was before the run
+   * @param apiKey The API key for the team
+   * @param result The migration result to update
+   */
+  private async applyPlannedAction(
+    action: PlannedMemberAction,
+    member: Member,
+    apiKey: string,
+    result: MigrationResult
+  ): Promise<void> {
+    const { teamId } = result;
+    this.logger.info(`Processing member: ${action.name} (${action.email})`);
+
+    if (action.invite && action.remappedAccess) {
+      this.recordRemappedAccess(result, action.remappedAccess);
+    }
+
+    if (this.options.dryRun) {
+      if (action.invite) {
+        this.logger.info(`[DRY RUN] Would send invitation to ${action.invite.email}`);
+        result.invitationsSent++;
+        this.recordOutcome(result, action, 'invite', { status: 'dry-run', targetEmail: action.invite.email });
+      }
+      if (action.delete) {
+        this.logger.info(`[DRY RUN] Would delete ${action.email}`);
+        result.membersDeleted++;
+        this.recordOutcome(result, action, 'delete', { status: 'dry-run' });
+      } else if (action.update) {
+        this.logger.info(`[DRY RUN] Would mark ${action.email} as obsolete`);
+        result.membersMarkedObsolete++;
+        this.recordOutcome(result, action, 'obsolete-mark', { status: 'dry-run' });
+      }
+      return;
+    }
+
+    this.recordMember(teamId, member);
+
+    // Invite first, so the old account is only touched once the new one exists
+    const inviteRequest = action.invite;
+    if (
+      inviteRequest &&
+      !(await this.withInviteFailureState(result, action, () =>
+        this.runStep(
+          member,
+          teamId,
+          'invite',
+          result,
+          () => this.inviteAndConfirm(inviteRequest, action, apiKey, result),
+          inviteRequest.email
+        )
+      ))
+    ) {
+      return;
+    }
+
+    if (action.delete) {
+      const deleteRequest = action.delete;
+      await this.replaceOldAccount(action, 'delete', action.invite, apiKey, result, () =>
+        this.runStep(member, teamId, 'delete', result, () => this.submitDelete(deleteRequest, action, apiKey, result))
+      );
+    } else if (action.update) {
+      const updateRequest = action.update;
+      await this.replaceOldAccount(action, 'obsolete-mark', action.invite, apiKey, result, () =>
+        this.runStep(member, teamId, 'obsolete-mark', result, () =>
+          this.submitObsoleteUpdate(updateRequest, action, apiKey, result)
+        )
+      );
+    } else {
+      this.recordMemberState(result, action, 'migrated');
+    }
+  }
+
+  /**
+   * Run the beforeMember and afterMember hooks around the migration of a member
+   * @param teamId The team ID
+   * @param member The member being migrated
+   * @param result The migration result the member's outcomes are recorded in
+   * @param migrate Migrate the member
+   */
+  private async withMemberHooks(
+    teamId: string,
+    member: Pick<Member, 'email' | 'subject' | 'name'>,
+    result: MigrationResult,
+    migrate: () => Promise<void>
+  ): Promise<void> {
+    if ((await this.hooks.beforeMember?.({ teamId, member })) === false) {
+      this.skipMember(member, 'Declined', result);
+      return;
+    }
+
+    const firstOutcome = result.members.length;
+    const firstState = result.memberStates.length;
+
+    try {
+      await migrate();
+    } finally {
+      // Other members may record outcomes at the same time
+      const outcomes = result.members.slice(firstOutcome).filter((outcome) => outcome.subject === member.subject);
+      const state = result.memberStates.slice(firstState).find((memberState) => memberState.subject === member.subject);
+      await this.hooks.afterMember?.({ teamId, member, outcomes, state });
+    }
+  }
+
+  /**
+   * Process members with the configured member concurrency. The steps of a
+   * single member always run in order within one worker; with more than one
+   * worker, log lines are prefixed with the member they belong to.
+   * @param items The members or member actions to process
+   * @param label Get the log label of an item
+   * @param worker Process a single item; must handle its own errors
+   */
+  private async forEachMember<T>(
+    items: T[],
+    label: (item: T) => string,
+    worker: (item: T) => Promise<void>
+  ): Promise<void> {
+    const concurrency = this.options.memberConcurrency || 1;
+
+    await runPool(items, concurrency, (item) =>
+      concurrency > 1 ? withLogContext(label(item), () => worker(item)) : worker(item)
+    );
+  }
+
+  /**
+   * Create an empty migration result for a team
+   * @param teamId The team ID
+   * @returns The migration result
+   */
+  private createResult(teamId: string): MigrationResult {
+    return {
+      teamId,
+      membersFound: 0,
+      membersMarkedObsolete: 0,
+      membersDeleted: 0,
+      invitationsSent: 0,
+      skippedMembers: 0,
+      skipped: [],
+      membersAlreadyMigrated: 0,
+      backupCreated: false,
+      unmappedEmails: [],
+      remappedAccess: [],
+      members: [],
+      memberStates: [],
+      errors: [],
+    };
+  }
+
+  /**
+   * Record the outcome of a member step in the migration result
+   * @param result The migration result to update
+   * @param member The member the step applies to
+   * @param action The step
+   * @param outcome The status and details of the step
+   */
+  private recordOutcome(
+    result: MigrationResult,
+    member: MemberRef,
+    action: MemberOutcomeAction,
+    outcome: Pick<MemberOutcome, 'status' | 'targetEmail' | 'httpStatus' | 'error' | 'reason'> & { startedAt?: string }
+  ): void {
+    const completedAt = new Date().toISOString();
+    result.members.push({
+      teamId: result.teamId,
+      email: member.email,
+      subject: member.subject,
+      action,
+      ...outcome,
+      startedAt: outcome.startedAt ?? completedAt,
+      completedAt,
+    });
+  }
+
+  /**
+   * Send a member request and record its outcome, unless the beforeMutation
+   * hook vetoes it. Error responses are recorded as failed and returned;
+   * unexpected errors are recorded and rethrown.
+   * @param result The migration result to update
+   * @param member The member the request applies to
+   * @param action The step the request belongs to
+   * @param mutation The request to send
+   * @param apiKey The API key for the team
+   * @param targetEmail The email an invitation is sent to
+   * @returns The API response, or undefined if the request was vetoed
+   */
+  private async sendMemberRequest(
+    result: MigrationResult,
+    member: MemberRef,
+    action: MemberOutcomeAction,
+    mutation: MemberMutation,
+    apiKey: string,
+    targetEmail?: string
+  ): Promise<ApiResponse<any> | undefined> {
+    const startedAt = new Date().toISOString();
+
+    if ((await this.hooks.beforeMutation?.({ ...mutation, teamId: result.teamId, member, action })) === false) {
+      this.logger.warn(`Not sending ${mutation.method} request for ${member.email}: vetoed by the beforeMutation hook`);
+      this.recordOutcome(result, member, action, {
+        status: 'skipped',
+        targetEmail,
+        reason: 'Vetoed by the beforeMutation hook',
+        startedAt,
+      });
+      return undefined;
+    }
+
+    try {
+      const response =
+        mutation.method === 'invite'
+          ? await this.client.inviteMember(mutation.request, apiKey)
+          : mutation.method === 'update'
+            ? await this.client.updateMember(mutation.request, apiKey)
+            : await this.client.deleteMember(mutation.request, apiKey);
+      const succeeded = response.status >= 200 && response.status < 300;
+      this.recordOutcome(result, member, action, {
+        status: succeeded ? 'succeeded' : 'failed',
+        targetEmail,
+        httpStatus: response.status,
+        error: succeeded ? undefined : response.statusText,
+        startedAt,
+      });
+      return response;
+    } catch (error) {
+      this.recordOutcome(result, member, action, {
+        status: 'failed',
+        targetEmail,
+        error: error instanceof Error ? error.message : String(error),
+        startedAt,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Create a backup of the team members if backups are enabled
+   * @param teamId The team ID
+   * @param members The members to backup
+   * @param result The migration result to update
+   * @param deletesMembers Whether the run is going to delete members
+   * @returns False if the run must be aborted because the backup failed
+   */
+  private async createBackup(
+    teamId: string,
+    members: Member[],
+    result: MigrationResult,
+    deletesMembers: boolean
+  ): Promise<boolean> {
+    if (this.options.backup.enabled && members.length > 0) {
+      try {
+        const backupResult = await this.backupMembers(teamId, members);
+        result.backupCreated = backupResult.success;
+        result.backupPath = backupResult.path;
+        
+        if (backupResult.success) {
+          this.logger.info(
+            `Backup created at: ${backupResult.path}${this.options.backup.key ? ` (encrypted with the key from ${this.options.backup.key.source})` : ''}`
+          );
+
+          if (this.options.journal && !this.options.dryRun && backupResult.path) {
+            this.options.journal.recordBackup(teamId, backupResult.path);
+          }
+
+          await this.hooks.onBackup?.({
+            teamId,
+            path: backupResult.path!,
+            memberCount: members.length,
+            keySource: this.options.backup.key?.source,
+          });
+        } else {
+          this.logger.error(`Failed to create backup: ${backupResult.error}`);
+          result.errors.push(`Failed to create backup: ${backupResult.error}`);
+          
+          // If backup is required for deletion and it failed, abort the migration
+          if (deletesMembers && !this.options.dryRun) {
+            this.logger.error('Aborting migration because backup failed and delete members is enabled');
+            result.errors.push('Migration aborted because backup failed and delete members is enabled');
+            return false;
+          }
+        }
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        this.logger.error(`Error creating backup: ${errorMessage}`);
+        result.errors.push(`Error creating backup: ${errorMessage}`);
+        
+        // If backup is required for deletion and it failed, abort the migration
+        if (deletesMembers && !this.options.dryRun) {
+          this.logger.error('Aborting migration because backup failed and delete members is enabled');
+          result.errors.push('Migration aborted because backup failed and delete members is enabled');
+          return false;
+        }
+      }
+    }
+
+    return true;
+  }
+
+  /**
+   * Backup team members to a versioned JSON file with a checksum
+   * @param teamId The team ID
+   * @param members The members to backup
+   * @returns Backup result
+   */
+  private async backupMembers(teamId: string, members: Member[]): Promise<{ success: boolean; path?: string; error?: string }> {
+    try {
+      // Create backup directory if it doesn't exist
+      const backupDir = path.resolve(this.options.backup.path);
+      if (!fs.existsSync(backupDir)) {
+        fs.mkdirSync(backupDir, { recursive: true });
+      }
+
+      // Create backup file with timestamp
+      const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+      const backupFileName = `team-${teamId}-backup-${timestamp}.json`;
+      const backupFilePath = path.join(backupDir, backupFileName);
+
+      // Write members to backup file
+      writeBackup(backupFilePath, createMemberBackup(teamId, this.client.baseUrl, members), this.options.backup);
+
+      return {
+        success: true,
+        path: backupFilePath
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        success: false,
+        error: errorMessage
+      };
+    }
+  }
+
+  /**
+   * Check if a member should be ignored based on email
+   * @param member The member to check
+   * @returns True if the member should be ignored
+   */
+  private shouldIgnoreMember(member: Member): boolean {
+    return (
+      this.options.ignoredEmails?.some(
+        (email) => email.toLowerCase() === member.email.toLowerCase()
+      ) || false
+    );
+  }
+
+  /**
+   * Create the selector for a team's own selection rules
+   * @param teamConfig The team configuration
+   * @returns The team selector, if the team has rules
+   */
+  private createTeamSelector(teamConfig: TeamConfig): MemberSelector | undefined {
+    return teamConfig.rules
+      ? new MemberSelector(teamConfig.rules, `team ${teamConfig.teamId}`)
+      : undefined;
+  }
+
+  /**
+   * Get the reason a member is skipped: a break-glass account, an ignored
+   * email, or not being selected by the global or the team's selection rules
+   * @param member The member to check
+   * @param teamSelector The selector for the team's own rules
+   * @returns The skip reason, or undefined if the member should be processed
+   */
+  private getSkipReason(member: Member, teamSelector?: MemberSelector): string | undefined {
+    if (this.isBreakGlassAccount(member)) {
+      return 'Break-glass account';
+    }
+
+    if (this.shouldIgnoreMember(member)) {
+      return 'Ignored email';
+    }
+
+    return (
+      this.globalSelector?.getExclusionReason(member) ??
+      teamSelector?.getExclusionReason(member)
+    );
+  }
+
+  /**
+   * Check whether a member is one of the break-glass accounts
+   * @param member The member to check
+   * @returns True if the member must never be deleted or renamed
+   */
+  private isBreakGlassAccount(member: MemberRef): boolean {
+    return (this.options.breakGlassEmails || []).some(
+      (email) => email.toLowerCase() === member.email.toLowerCase()
+    );
+  }
+
+  /**
+   * Get the members whose old account a migration of the team would delete or
+   * change, leaving out skipped and already migrated members
+   * @param teamConfig The team configuration
+   * @param members The current members of the team
+   * @returns The members whose old account would be deleted or changed
+   */
+  private getOldAccountTargets(teamConfig: TeamConfig, members: Member[]): OldAccountTarget[] {
+    const { teamId } = teamConfig;
+    const journal = this.options.journal;
+    const teamSelector = this.createTeamSelector(teamConfig);
+
+    return members.flatMap((liveMember) => {
+      const member = journal?.getMember(teamId, liveMember.subject) ?? liveMember;
+      if (this.getSkipReason(member, teamSelector) || journal?.isCreatedByRun(teamId, member)) {
+        return [];
+      }
+
+      const deprovisionRequest = this.getDeprovisionRequest(member, teamId);
+      if (!deprovisionRequest || this.getMigrationProgress(liveMember, members, teamId).alreadyMigrated) {
+        return [];
+      }
+
+      return [{ email: member.email, subject: member.subject, method: deprovisionRequest.method }];
+    });
+  }
+
+  /**
+   * Get the members a plan deletes or changes
+   * @param teamPlan The team plan
+   * @returns The members whose old account the plan deletes or changes
+   */
+  private getPlannedTargets(teamPlan: TeamPlan): OldAccountTarget[] {
+    return teamPlan.actions.flatMap((action) =>
+      action.delete || action.update
+        ? [{ email: action.email, subject: action.subject, method: action.delete ? ('delete' as const) : ('update' as const) }]
+        : []
+    );
+  }
+
+  /**
+   * Find the reasons deleting or changing members would leave a team
+   * unmanageable: a break-glass account is among them, no team admin would be
+   * left untouched, or more members would be deleted than the limits allow
+   * @param teamId The team ID
+   * @param members The current members of the team
+   * @param targets The members that would be deleted or changed
+   * @returns The problems found; empty if the run is safe
+   */
+  private getSafetyProblems(teamId: string, members: Member[], targets: OldAccountTarget[]): string[] {
+    const problems: string[] = [];
+    const targetSubjects = new Set(targets.map((target) => target.subject));
+    const deletes = targets.filter((target) => target.method === 'delete');
+
+    // Every built-in strategy that keeps old accounts renames them
+    const verb = (affected: OldAccountTarget[]) => {
+      const deleted = affected.filter((target) => target.method === 'delete').length;
+      return deleted === affected.length ? 'delete' : deleted > 0 ? 'delete or rename' : 'rename';
+    };
+
+    const breakGlassTargets = targets.filter((target) => this.isBreakGlassAccount(target));
+    if (breakGlassTargets.length > 0) {
+      problems.push(
+        `Refusing to ${verb(breakGlassTargets)} break-glass accounts of team ${teamId}: ${breakGlassTargets.map((target) => target.email).join(', ')}`
+      );
+    }
+
+    // Renamed admins keep their rights, but are on their way out; pending
+    // invitations can't manage the team until they are accepted
+    const targetedAdmins = targets.filter((target) =>
+      members.some((member) => member.subject === target.subject && member.isTeamAdmin)
+    );
+    const remainingAdmins = members.filter(
+      (member) => member.isTeamAdmin && !targetSubjects.has(member.subject) && !this.isRenamed(member.name)
+    );
+    if (targetedAdmins.length > 0 && remainingAdmins.length === 0) {
+      problems.push(
+        `Refusing to ${verb(targetedAdmins)} the last team admin of team ${teamId} (${targetedAdmins.map((admin) => admin.email).join(', ')}): ` +
+          'leave at least one admin out of the migration, for example as a break-glass account'
+      );
+    }
+
+    const { maxDeletes, maxDeletePercent, allowMassDelete } = this.options;
+    if (!allowMassDelete && deletes.length > 0) {
+      const percent = (deletes.length / members.length) * 100;
+      const limits = [
+        ...(maxDeletes !== undefined ? [`${maxDeletes} member${maxDeletes === 1 ? '' : 's'}`] : []),
+        ...(maxDeletePercent !== undefined ? [`${maxDeletePercent}%`] : []),
+      ];
+
+      if (
+        (maxDeletes !== undefined && deletes.length > maxDeletes) ||
+        (maxDeletePercent !== undefined && percent > maxDeletePercent)
+      ) {
+        problems.push(
+          `Refusing to delete ${deletes.length} of ${members.length} members (${Math.round(percent)}%) of team ${teamId}: ` +
+            `the limit is ${limits.join(' and ')}, unless mass deletes are allowed`
+        );
+      }
+    }
+
+    return problems;
+  }
+
+  /**
+   * Record a skipped member in the migration result
+   * @param member The skipped member
+   * @param reason Why the member is skipped
+   * @param result The migration result to update
+   */
+  private skipMember(member: Pick<Member, 'email' | 'subject' | 'name'>, reason: string, result: MigrationResult): void {
+    this.logger.info(`Skipping member: ${member.name} (${member.email}): ${reason}`);
+    result.skippedMembers++;
+    result.skipped.push({ email: member.email, subject: member.subject, reason });
+    this.recordOutcome(result, member, 'skip', { status: 'skipped', reason });
+  }
+
+  /**
+   * Process a single member. The new account is invited and confirmed before
+   * the old account is deleted or marked obsolete, so a failed invitation
+   * never leaves the member without access.
+   * @param member The member to process
+   * @param teamConfig The team configuration
+   * @param result The migration result to update
+   * @param progress How far earlier runs got with the member
+   */
+  private async processMember(
+    member: Member,
+    teamConfig: TeamConfig,
+    result: MigrationResult,
+    progress: MigrationProgress
+  ): Promise<void> {
+    const { teamId, apiKey } = teamConfig;
+    const journal = this.options.journal;
+    
+    this.logger.info(`Processing member: ${member.name} (${member.email})`);
+    this.recordMember(teamId, member);
+
+    // Send a new invitation with the same roles, as remapped
+    const inviteRequest = this.buildInviteRequest(member, teamId, true);
+    let invited: boolean;
+    if (progress.replacement && !journal?.isStepCompleted(teamId, member.subject, 'invite')) {
+      this.recordAlreadyMigrated(result, member, 'invite', `Replacement account ${progress.replacement.email} already exists`);
+      invited = true;
+    } else {
+      const remappedAccess = this.options.accessRemapper?.remap(member);
+      if (remappedAccess) {
+        this.recordRemappedAccess(result, remappedAccess);
+      }
+
+      invited = await this.withInviteFailureState(result, member, () =>
+        this.runStep(
+          member,
+          teamId,
+          'invite',
+          result,
+          () => this.sendNewInvitation(member, teamConfig, result, true),
+          inviteRequest.email
+        )
+      );
+    }
+
+    if (!invited) {
+      return;
+    }
+
+    if (!this.deprovision) {
+      this.recordMemberState(result, member, 'migrated');
+      return;
+    }
+
+    // Deprovision the old account, e.g. mark it obsolete or delete it
+    const deprovisionRequest = this.getDeprovisionRequest(member, teamId);
+    const step: 'delete' | 'obsolete-mark' = deprovisionRequest?.method === 'delete' ? 'delete' : 'obsolete-mark';
+
+    if (!deprovisionRequest && !journal?.isStepCompleted(teamId, member.subject, step)) {
+      this.recordAlreadyMigrated(result, member, step, `Old account already handled by the ${this.deprovision.name} strategy`);
+      this.recordMemberState(result, member, 'migrated');
+    } else {
+      await this.replaceOldAccount(member, step, inviteRequest, apiKey, result, () =>
+        this.runStep(member, teamId, step, result, () => this.deprovisionMember(member, deprovisionRequest!, teamConfig, result))
+      );
+    }
+  }
+
+  /**
+   * Build the request the deprovisioning strategy sends for a member's old account
+   * @param member The member
+   * @param teamId The team ID
+   * @returns The request, or undefined if there is no strategy or nothing left to do
+   */
+  private getDeprovisionRequest(member: Member, teamId: string): DeprovisionRequest | undefined {
+    return this.deprovision?.deprovision(member, {
+      teamId,
+      projects: convertMemberProjectsToInvites(member),
+    });
+  }
+
+  /**
+   * Check whether an account was renamed as an old account, by the
+   * deprovisioning strategy or with the obsolete prefix of earlier versions
+   * @param name The account name
+   * @returns True if the account was renamed
+   */
+  private isRenamed(name: string): boolean {
+    return name.startsWith(OBSOLETE_NAME_PREFIX) || this.deprovision?.originalName?.(name) !== undefined;
+  }
+
+  /**
+   * Undo renaming a member name, however often it was renamed
+   * @param name The member name
+   * @returns The name the member had before it was renamed
+   */
+  private getOriginalName(name: string): string {
+    let original = name;
+    while (this.isRenamed(original)) {
+      original = this.deprovision?.originalName?.(original) ?? original.slice(OBSOLETE_NAME_PREFIX.length);
+    }
+    return original;
+  }
+
+  /**
+   * Send a member's new invitation, and record the member as unchanged if it
+   * fails or throws
+   * @param result The migration result to update
+   * @param member The member being invited
+   * @param invite Send and confirm the invitation, resolving to true on success
+   * @returns True if the invitation succeeded
+   */
+  private async withInviteFailureState(
+    result: MigrationResult,
+    member: MemberRef,
+    invite: () => Promise<boolean>
+  ): Promise<boolean> {
+    let invited = false;
+    try {
+      invited = await invite();
+      return invited;
+    } finally {
+      if (!invited) {
+        this.recordMemberState(result, member, 'unchanged', 'The invitation failed, so the old account was left untouched');
+      }
+    }
+  }
+
+  /**
+   * Delete or mark the old account of an invited member, and invite the
+   * member again if that leaves them without an account. A request that threw
+   * may or may not have been applied, so the team is read again right away to
+   * see which accounts are left. Deleting an account can take a pending
+   * invitation for the same email with it, so deleted members are recorded as
+   * migrated for now and checked once their batch is done.
+   * @param member The member whose old account is handled
+   * @param step The step handling the old account
+   * @param inviteRequest The invitation the member's new account was created with
+   * @param apiKey The API key for the team
+   * @param result The migration result to update
+   * @param handle Delete or mark the old account, resolving to true on success
+   */
+  private async replaceOldAccount(
+    member: MemberRef,
+    step: 'delete' | 'obsolete-mark',
+    inviteRequest: InviteMemberRequest | undefined,
+    apiKey: string,
+    result: MigrationResult,
+    handle: () => Promise<boolean>
+  ): Promise<void> {
+    let succeeded = false;
+    let failure: unknown;
+
+    try {
+      succeeded = await handle();
+    } catch (error) {
+      failure = error;
+    }
+
+    if (!this.options.dryRun) {
+      if (failure !== undefined) {
+        await this.checkAccessAfterStep(member, step, succeeded, inviteRequest, apiKey, result);
+      } else {
+        this.recordMemberState(
+          result,
+          member,
+          succeeded ? 'migrated' : 'old-account-kept',
+          succeeded ? undefined : `The old account couldn't be ${step === 'delete' ? 'deleted' : 'marked obsolete'}; both accounts are active`
+        );
+
+        if (step === 'delete' && succeeded) {
+          this.deferDeletedAccountCheck(result, { member, inviteRequest, apiKey });
+        }
+      }
+    }
+
+    if (failure !== undefined) {
+      throw failure;
+    }
+  }
+
+  /**
+   * Read the team after a request handling the old account of a member threw,
+   * and record where the member was left
+   * @param member The member whose old account was handled
+   * @param step The step that handled the old account
+   * @param succeeded Whether the step reported success
+   * @param inviteRequest The invitation the member's new account was created with
+   * @param apiKey The API key for the team
+   * @param result The migration result to update
+   */
+  private async checkAccessAfterStep(
+    member: MemberRef,
+    step: 'delete' | 'obsolete-mark',
+    succeeded: boolean,
+    inviteRequest: InviteMemberRequest | undefined,
+    apiKey: string,
+    result: MigrationResult
+  ): Promise<void> {
+    const membersResponse = await this.client.getMembers(result.teamId, apiKey, false);
+
+    if (membersResponse.status !== 200) {
+      const errorMessage = `Could not check the accounts of ${member.email}: ${membersResponse.statusText}`;
+      this.logger.error(errorMessage);
+      result.errors.push(errorMessage);
+      this.recordMemberState(result, member, succeeded ? 'migrated' : 'old-account-kept', errorMessage);
+      return;
+    }
+
+    await this.recordAccessAfterStep(membersResponse.data, member, step, inviteRequest, apiKey, result);
+  }
+
+  /**
+   * Remember a member whose old account was deleted, to check its accounts
+   * once the batch it is migrated in is done
+   * @param result The migration result of the team run
+   * @param check The member and the invitation its new account was created with
+   */
+  private deferDeletedAccountCheck(result: MigrationResult, check: DeletedAccountCheck): void {
+    const checks = this.deletedAccountChecks.get(result) ?? [];
+    checks.push(check);
+    this.deletedAccountChecks.set(result, checks);
+  }
+
+  /**
+   * Read the team once after a batch of members (a team, a wave or a plan) and
+   * check the accounts of every member whose old account was deleted in it,
+   * instead of reading the whole team again for every member
+   * @param result The migration result of the team run
+   */
+  private async checkDeletedAccounts(result: MigrationResult): Promise<void> {
+    const checks = this.deletedAccountChecks.get(result);
+    if (!checks?.length) {
+      return;
+    }
+    this.deletedAccountChecks.delete(result);
+
+    let members: Member[] | undefined;
+    let failure: string | undefined;
+    try {
+      const membersResponse = await this.client.getMembers(result.teamId, checks[0].apiKey, false);
+      if (membersResponse.status === 200) {
+        members = membersResponse.data;
+      } else {
+        failure = membersResponse.statusText;
+      }
+    } catch (error) {
+      failure = error instanceof Error ? error.message : String(error);
+    }
+
+    for (const { member, inviteRequest, apiKey } of checks) {
+      if (!members) {
+        const errorMessage = `Could not check the accounts of ${member.email}: ${failure}`;
+        this.logger.error(errorMessage);
+        result.errors.push(errorMessage);
+        continue;
+      }
+
+      // Replace the state recorded when the delete succeeded
+      result.memberStates = result.memberStates.filter((memberState) => memberState.subject !== member.subject);
+      await this.recordAccessAfterStep(members, member, 'delete', inviteRequest, apiKey, result);
+    }
+  }
+
+  /**
+   * Record where a member was left after its old account was handled, from
+   * a read of the team. If the old account was deleted and the new one is
+   * gone too, the member is invited again from the snapshot taken before.
+   * @param members The members of the team, read after the step
+   * @param member The member whose old account was handled
+   * @param step The step that handled the old account
+   * @param inviteRequest The invitation the member's new account was created with
+   * @param apiKey The API key for the team
+   * @param result The migration result to update
+   */
+  private async recordAccessAfterStep(
+    members: Member[],
+    member: MemberRef,
+    step: 'delete' | 'obsolete-mark',
+    inviteRequest: InviteMemberRequest | undefined,
+    apiKey: string,
+    result: MigrationResult
+  ): Promise<void> {
+    const stepName = step === 'delete' ? 'deleted' : 'marked obsolete';
+    const oldAccount = members.find((account) => account.subject === member.subject);
+    const inviteEmail = inviteRequest?.email ?? member.email;
+    const hasNewAccount = members.some((account) => this.isInvitedAccount(account, member, inviteEmail));
+    const oldAccountHandled = !oldAccount || (step === 'obsolete-mark' && this.isRenamed(oldAccount.name));
+
+    if (hasNewAccount) {
+      this.recordMemberState(
+        result,
+        member,
+        oldAccountHandled ? 'migrated' : 'old-account-kept',
+        oldAccountHandled ? undefined : `The old account couldn't be ${stepName}; both accounts are active`
+      );
+      return;
+    }
+
+    if (oldAccount) {
+      this.recordMemberState(result, member, 'unchanged', `The new account ${inviteEmail} is gone; the old account is still active`);
+      return;
+    }
+
+    // The old account was deleted and the new one is gone: invite the member again
+    this.logger.warn(`The new account ${inviteEmail} is gone after ${member.email} was deleted, inviting it again`);
+    if (inviteRequest && (await this.submitInvite(inviteRequest, member, apiKey, result))) {
+      this.recordMemberState(result, member, 'compensated', `The new account was gone after the old one was deleted; ${inviteEmail} was invited again`);
+    } else {
+      const errorMessage = `${member.email} was deleted and has no new account: invite ${inviteEmail} manually`;
+      this.logger.error(errorMessage);
+      result.errors.push(errorMessage);
+      this.recordMemberState(result, member, 'no-access', errorMessage);
+    }
+  }
+
+  /**
+   * Check whether an account is the one a member's invitation created: it has
+   * the invitation email, isn't the member's old account, and isn't obsolete
+   * @param account The account to check
+   * @param member The invited member
+   * @param inviteEmail The email the invitation was sent to
+   * @returns True if the account was created by the invitation
+   */
+  private isInvitedAccount(account: Member, member: MemberRef, inviteEmail: string): boolean {
+    return (
+      account.subject !== member.subject &&
+      !this.isRenamed(account.name) &&
+      account.email.toLowerCase() === inviteEmail.toLowerCase()
+    );
+  }
+
+  /**
+   * Send an invitation and confirm it created an account, before the member's
+   * old account is touched
+   * @param inviteRequest The invitation request
+   * @param member The member the invitation replaces
+   * @param apiKey The API key for the team
+   * @param result The migration result to update
+   * @returns True if the invitation succeeded and created an account
+   */
+  private async inviteAndConfirm(
+    inviteRequest: InviteMemberRequest,
+    member: MemberRef,
+    apiKey: string,
+    result: MigrationResult
+  ): Promise<boolean> {
+    const response = await this.submitInvite(inviteRequest, member, apiKey, result);
+    return !!response && this.confirmInvitation(member, inviteRequest.email, response, apiKey, result);
+  }
+
+  /**
+   * Check that a sent invitation created an account in the team. An answer
+   * with the subject of a new account confirms it; the API doesn't promise
+   * one, so without it the team is read again to find the invited account.
+   * @param member The invited member
+   * @param inviteEmail The email the invitation was sent to
+   * @param inviteResponse The answer to the invitation
+   * @param apiKey The API key for the team
+   * @param result The migration result to update
+   * @returns True if the invited account exists
+   */
+  private async confirmInvitation(
+    member: MemberRef,
+    inviteEmail: string,
+    inviteResponse: ApiResponse<InviteMemberResponse>,
+    apiKey: string,
+    result: MigrationResult
+  ): Promise<boolean> {
+    // Checked at runtime, since the answer is whatever the API sent
+    const subject: unknown = inviteResponse.data?.subject;
+    if (typeof subject === 'string' && subject && subject !== member.subject) {
+      return true;
+    }
+
+    const membersResponse = await this.client.getMembers(result.teamId, apiKey, false);
+    const confirmed =
+      membersResponse.status === 200 &&
+      membersResponse.data.some((account) => this.isInvitedAccount(account, member, inviteEmail));
+
+    if (!confirmed) {
+      const errorMessage =
+        membersResponse.status === 200
+          ? `Invitation to ${inviteEmail} was accepted but doesn't show up in team ${result.teamId}`
+          : `Could not confirm the invitation to ${inviteEmail}: ${membersResponse.statusText}`;
+      this.logger.error(errorMessage);
+      result.errors.push(errorMessage);
+    }
+
+    return confirmed;
+  }
+
+  /**
+   * Record where a member was left at the end of a live run
+   * @param result The migration result to update
+   * @param member The member
+   * @param state The member's final state
+   * @param detail What happened, for anything but a full migration
+   */
+  private recordMemberState(result: MigrationResult, member: MemberRef, state: MemberFinalState, detail?: string): void {
+    if (this.options.dryRun) {
+      return;
+    }
+
+    if (state !== 'migrated') {
+      this.logger.warn(`${member.email} was left ${state}${detail ? `: ${detail}` : ''}`);
+    }
+    result.memberStates.push({ email: member.email, subject: member.subject, state, detail });
+  }
+
+  /**
+   * Work out how far earlier runs got with a member. A member is already
+   * migrated if it is the replacement account of another member, or if its
+   * replacement account exists and it was deleted or marked obsolete as
+   * configured. Replacement accounts are recognised by the invitation email,
+   * and told apart from the account they replace by the obsolete prefix, the
+   * journals of this and earlier runs, or, as a last resort, by joining the
+   * team later.
+   * @param member The member as returned by the API
+   * @param members All current members of the team
+   * @param teamId The team ID
+   * @returns The member's migration progress
+   */
+  private getMigrationProgress(member: Member, members: Member[], teamId: string): MigrationProgress {
+    const deprovisioned = !this.getDeprovisionRequest(member, teamId);
+
+    if (this.isCreatedByEarlierRun(teamId, member)) {
+      return { alreadyMigrated: 'Replacement account created by an earlier run', deprovisioned };
+    }
+
+    const replaced = members.find((other) => this.isReplacementOf(member, other, teamId));
+    if (replaced) {
+      return { alreadyMigrated: `Replacement account for ${replaced.email}`, deprovisioned };
+    }
+
+    const replacement = members.find((other) => this.isReplacementOf(other, member, teamId));
+
+    if (replacement && deprovisioned) {
+      return {
+        alreadyMigrated: `Replaced by ${replacement.email}${this.deprovision ? ` and handled by the ${this.deprovision.name} strategy` : ''}`,
+        deprovisioned,
+        replacement,
+      };
+    }
+
+    return { deprovisioned, replacement };
+  }
+
+  /**
+   * Check whether one account replaces another: it has the email the other is
+   * invited with and isn't obsolete itself. When both have the same email,
+   * the one that isn't marked obsolete, was created by this tool, or else
+   * joined the team later is the replacement.
+   * @param candidate The account that may be the replacement
+   * @param original The account that may be replaced
+   * @param teamId The team ID
+   * @returns True if the candidate replaces the original
+   */
+  private isReplacementOf(candidate: Member, original: Member, teamId: string): boolean {
+    if (
+      candidate.subject === original.subject ||
+      this.isRenamed(candidate.name) ||
+      candidate.email.toLowerCase() !== this.resolveInviteEmail(original).email.toLowerCase()
+    ) {
+      return false;
+    }
+
+    if (candidate.email.toLowerCase() !== original.email.toLowerCase() || this.isRenamed(original.name)) {
+      return true;
+    }
+
+    const candidateCreated = this.isCreatedByTool(teamId, candidate);
+    const originalCreated = this.isCreatedByTool(teamId, original);
+    if (candidateCreated !== originalCreated) {
+      return candidateCreated;
+    }
+
+    return Date.parse(candidate.memberSince) > Date.parse(original.memberSince);
+  }
+
+  /**
+   * Check whether the invitation of this run or an earlier one created an account
+   * @param teamId The team ID
+   * @param member The member as returned by the API
+   * @returns True if the account was created by this tool
+   */
+  private isCreatedByTool(teamId: string, member: Member): boolean {
+    return Boolean(this.options.journal?.isCreatedByRun(teamId, member)) || this.isCreatedByEarlierRun(teamId, member);
+  }
+
+  private isCreatedByEarlierRun(teamId: string, member: Member): boolean {
+    return (this.options.previousJournals || []).some((journal) => journal.isCreatedByRun(teamId, member));
+  }
+
+  /**
+   * Record a member whose migration an earlier run already finished
+   * @param member The member
+   * @param reason What the earlier run did
+   * @param result The migration result to update
+   */
+  private skipMigratedMember(member: Member, reason: string, result: MigrationResult): void {
+    this.logger.info(`Skipping member: ${member.name} (${member.email}): already migrated: ${reason}`);
+    result.membersAlreadyMigrated++;
+    this.recordOutcome(result, member, 'skip', { status: 'already-migrated', reason });
+  }
+
+  /**
+   * Record a member step an earlier run already completed
+   * @param result The migration result to update
+   * @param member The member the step applies to
+   * @param step The step
+   * @param reason What the earlier run did
+   */
+  private recordAlreadyMigrated(result: MigrationResult, member: Member, step: JournalStep, reason: string): void {
+    this.logger.info(`Skipping ${step} for ${member.email}: ${reason}`);
+    this.recordOutcome(result, member, step, { status: 'already-migrated', reason });
+  }
+
+  /**
+   * Run a single member step unless the journal shows it already completed,
+   * and record it in the journal once it succeeds
+   * @param member The member the step applies to
+   * @param teamId The team ID
+   * @param step The journal step
+   * @param result The result to record a skipped step in
+   * @param action The step implementation, resolving to true on success
+   * @param invitedEmail The email an invite step sends the invitation to
+   * @returns True if the step succeeded now or in an earlier run
+   */
+  private async runStep(
+    member: Member,
+    teamId: string,
+    step: JournalStep,
+    result: MigrationResult,
+    action: () => Promise<boolean>,
+    invitedEmail?: string
+  ): Promise<boolean> {
+    const journal = this.options.journal;
+
+    if (journal?.isStepCompleted(teamId, member.subject, step)) {
+      this.logger.info(`Skipping ${step} for ${member.email}: already completed according to journal`);
+      this.recordOutcome(result, member, step, {
+        status: 'skipped',
+        reason: 'Already completed according to journal',
+      });
+      return true;
+    }
+
+    const succeeded = await action();
+
+    if (succeeded && journal && !this.options.dryRun) {
+      journal.recordStep(teamId, member, step, invitedEmail !== member.email ? invitedEmail : undefined);
+    }
+
+    return succeeded;
+  }
+
+  /**
+   * Record a member snapshot in the journal for live runs
+   * @param teamId The team ID
+   * @param member The member snapshot
+   */
+  private recordMember(teamId: string, member: Member): void {
+    if (this.options.journal && !this.options.dryRun) {
+      this.options.journal.recordMember(teamId, member);
+    }
+  }
+
+  /**
+   * Record a fully processed team in the journal for live runs
+   * @param teamId The team ID
+   */
+  private recordTeamCompleted(teamId: string): void {
+    if (this.options.journal && !this.options.dryRun) {
+      this.options.journal.recordTeamCompleted(teamId);
+    }
+  }
+
+  /**
+   * Deprovision a member's old account with the request the strategy built
+   * @param member The member
+   * @param deprovisionRequest The request
+   * @param teamConfig The team configuration
+   * @param result The migration result to update
+   */
+  private async deprovisionMember(
+    member: Member,
+    deprovisionRequest: DeprovisionRequest,
+    teamConfig: TeamConfig,
+    result: MigrationResult
+  ): Promise<boolean> {
+    return deprovisionRequest.method === 'delete'
+      ? this.deleteMember(member, teamConfig, result)
+      : this.markMemberAsObsolete(member, deprovisionRequest.request, teamConfig, result);
+  }
+
+  /**
+   * Mark a member as obsolete
+   * @param member The member to mark as obsolete
+   * @param updateRequest The update request built by the deprovisioning strategy
+   * @param teamConfig The team configuration
+   * @param result The migration result to update
+   */
+  private async markMemberAsObsolete(
+    member: Member,
+    updateRequest: UpdateMemberRequest,
+    teamConfig: TeamConfig,
+    result: MigrationResult
+  ): Promise<boolean> {
+    const { apiKey } = teamConfig;
+
+    this.logger.info(
+      `Marking member as obsolete: ${member.name} -> ${updateRequest.name}` +
+        (updateRequest.isAdmin !== member.isTeamAdmin ? ', removing team admin rights' : '') +
+        (updateRequest.projects?.length === 0 && Object.keys(member.projects).length > 0 ? ', removing project access' : '')
+    );
+
+    if (this.options.dryRun) {
+      this.logger.info(`[DRY RUN] Would mark ${member.email} as obsolete`);
+      result.membersMarkedObsolete++;
+      this.recordOutcome(result, member, 'obsolete-mark', { status: 'dry-run' });
+      return true;
+    }
+
+    return this.submitObsoleteUpdate(updateRequest, member, apiKey, result);
+  }
+
+  /**
+   * Send an update request that marks a member as obsolete
+   * @param updateRequest The update request
+   * @param member The member being updated
+   * @param apiKey The API key for the team
+   * @param result The migration result to update
+   */
+  private async submitObsoleteUpdate(
+    updateRequest: UpdateMemberRequest,
+    member: MemberRef,
+    apiKey: string,
+    result: MigrationResult
+  ): Promise<boolean> {
+    const { email } = member;
+
+    this.logger.debug(`Sending update request for ${email}`, { request: updateRequest });
+
+    const response = await this.sendMemberRequest(
+      result,
+      member,
+      'obsolete-mark',
+      { method: 'update', request: updateRequest },
+      apiKey
+    );
+
+    if (!response) {
+      return false;
+    }
+
+    if (response.status >= 200 && response.status < 300) {
+      this.logger.info(`Successfully marked ${email} as obsolete`);
+      result.membersMarkedObsolete++;
+      return true;
+    } else {
+      const errorMessage = `Failed to mark ${email} as obsolete: ${response.statusText}`;
+      this.logger.error(errorMessage);
+      this.logger.debug('Response data', { data: response.data });
+      result.errors.push(errorMessage);
+      return false;
+    }
+  }
+
+  /**
+   * Send a new invitation to a member, and confirm it created an account
+   * @param member The member to invite
+   * @param teamConfig The team configuration
+   * @param result The migration result to update
+   * @param remapAccess Whether to invite the member with the remapped access instead of the member's own
+   */
+  private async sendNewInvitation(
+    member: Member,
+    teamConfig: TeamConfig,
+    result: MigrationResult,
+    remapAccess = false
+  ): Promise<boolean> {
+    const { teamId, apiKey } = teamConfig;
+    const inviteRequest = this.buildInviteRequest(member, teamId, remapAccess);
+    const recipient = inviteRequest.email === member.email
+      ? member.email
+      : `${member.email} as ${inviteRequest.email}`;
+
+    if (this.options.emailMapper && !this.resolveInviteEmail(member).mapped) {
+      this.logger.warn(`No email mapping for ${member.email}, inviting the unchanged email`);
+      result.unmappedEmails.push(member.email);
+    }
+
+    this.logger.info(
+      `Sending new invitation to ${recipient} with ${inviteRequest.projects.length} projects`
+    );
+
+    if (this.options.dryRun) {
+      this.logger.info(`[DRY RUN] Would send invitation to ${recipient}`);
+      result.invitationsSent++;
+      this.recordOutcome(result, member, 'invite', { status: 'dry-run', targetEmail: inviteRequest.email });
+      return true;
+    }
+
+    return this.inviteAndConfirm(inviteRequest, member, apiKey, result);
+  }
+
+  /**
+   * Record how the access remap changed the access a member is invited with
+   * @param result The migration result to update
+   * @param remappedAccess The member's access before and after the remap
+   */
+  private recordRemappedAccess(result: MigrationResult, remappedAccess: RemappedAccess): void {
+    this.logger.info(`Remapping access of ${remappedAccess.email}: ${remappedAccess.changes.join('; ')}`);
+    result.remappedAccess.push(remappedAccess);
+  }
+
+  /**
+   * Resolve the email a member's new invitation is sent to
+   * @param member The member to invite
+   * @returns The invitation email and whether the email mapping matched it
+   */
+  private resolveInviteEmail(member: Member): { email: string; mapped: boolean } {
+    const mappedEmail = this.options.emailMapper?.map(member.email);
+    return {
+      email: mappedEmail ?? member.email,
+      mapped: mappedEmail !== undefined,
+    };
+  }
+
+  /**
+   * Build the invitation request that re-invites a member with the same roles
+   * @param member The member to invite
+   * @param teamId The team ID
+   * @param remapAccess Whether to invite the member with the remapped access instead of the member's own
+   * @returns The invitation request
+   */
+  private buildInviteRequest(member: Member, teamId: string, remapAccess = false): InviteMemberRequest {
+    const accessRemapper = remapAccess ? this.options.accessRemapper : undefined;
+    const projects = accessRemapper ? accessRemapper.remapProjects(member) : member.projects;
+
+    return {
+      email: this.resolveInviteEmail(member).email,
+      name: this.getOriginalName(member.name),
+      isAdmin: member.isTeamAdmin,
+      teamId,
+      projects: convertMemberProjectsToInvites({ ...member, projects }),
+      sendEmail: this.options.sendInvitationEmails ?? true,
+    };
+  }
+
+  /**
+   * Send an invitation request
+   * @param inviteRequest The invitation request
+   * @param member The member the invitation replaces
+   * @param apiKey The API key for the team
+   * @param result The migration result to update
+   * @returns The response if the invitation succeeded
+   */
+  private async submitInvite(
+    inviteRequest: InviteMemberRequest,
+    member: MemberRef,
+    apiKey: string,
+    result: MigrationResult
+  ): Promise<ApiResponse<InviteMemberResponse> | undefined> {
+    const { email } = inviteRequest;
+
+    this.logger.debug(`Sending invitation request for ${email}`, { request: inviteRequest });
+
+    const response = await this.sendMemberRequest(
+      result,
+      member,
+      'invite',
+      { method: 'invite', request: inviteRequest },
+      apiKey,
+      email
+    );
+
+    if (!response) {
+      return undefined;
+    }
+
+    if (response.status >= 200 && response.status < 300) {
+      this.logger.info(`Successfully sent invitation to ${email}`);
+      result.invitationsSent++;
+      return response;
+    } else {
+      const errorMessage = `Failed to send invitation to ${email}: ${response.statusText}`;
+      this.logger.error(errorMessage);
+      this.logger.debug('Response data', { data: response.data });
+      result.errors.push(errorMessage);
+      return undefined;
+    }
+  }
+
+  /**
+   * Delete a member from a team
+   * @param member The member to delete
+   * @param teamConfig The team configuration
+   * @param result The migration result to update
+   */
+  private async deleteMember(member: Member, teamConfig: TeamConfig, result: MigrationResult): Promise<boolean> {
+    const { teamId, apiKey } = teamConfig;
+    
+    this.logger.info(`Deleting member: ${member.name} (${member.email})`);
+    
+    if (this.options.dryRun) {
+      this.logger.info(`[DRY RUN] Would delete ${member.email}`);
+      result.membersDeleted++;
+      this.recordOutcome(result, member, 'delete', { status: 'dry-run' });
+      return true;
+    }
+
+    const deleteRequest = this.buildDeleteRequest(member, teamId);
+    return this.submitDelete(deleteRequest, member, apiKey, result);
+  }
+
+  /**
+   * Build the request that deletes a member from a team
+   * @param member The member to delete
+   * @param teamId The team ID
+   * @returns The delete request
+   */
+  private buildDeleteRequest(member: Member, teamId: string): DeleteMemberRequest {
+    return {
+      teamId,
+      subject: member.subject
+    };
+  }
+
+  /**
+   * Send a delete request
+   * @param deleteRequest The delete request
+   * @param member The member being deleted
+   * @param apiKey The API key for the team
+   * @param result The migration result to update
+   */
+  private async submitDelete(
+    deleteRequest: DeleteMemberRequest,
+    member: MemberRef,
+    apiKey: string,
+    result: MigrationResult
+  ): Promise<boolean> {
+    const { email } = member;
+
+    this.logger.debug(`Sending delete request for ${email}`, { request: deleteRequest });
+    
+    const response = await this.sendMemberRequest(
+      result,
+      member,
+      'delete',
+      { method: 'delete', request: deleteRequest },
+      apiKey
+    );
+
+    if (!response) {
+      return false;
+    }
+    
+    if (response.status >= 200 && response.status < 300) {
+      this.logger.info(`Successfully deleted ${email}`);
+      result.membersDeleted++;
+      return true;
+    } else {
+      const errorMessage = `Failed to delete ${email}: ${response.statusText}`;
+      this.logger.error(errorMessage);
+      this.logger.debug('Response data', { data: response.data });
+      result.errors.push(errorMessage);
+      return false;
+    }
+  }
+
+  /**
+   * Restore members from a backup file. The backup must belong to the team
+   * unless team mismatches are allowed. Only members missing from the team are
+   * invited; members still in the team whose admin flag or project access
+   * drifted from the backup are updated. The diff is logged before anything
+   * is sent.
+   * @param backupFilePath Path to the backup file
+   * @param teamConfig Team configuration
+   * @returns Restore result
+   */
+  async restoreFromBackup(backupFilePath: string, teamConfig: TeamConfig): Promise<RestoreResult> {
+    const result = await this.restoreTeamMembers(backupFilePath, teamConfig);
+    await this.hooks.onTeamCompleted?.({ operation: 'restore', teamId: teamConfig.teamId, result });
+    return result;
+  }
 
-          result.membersRestored++;
+  private async restoreTeamMembers(backupFilePath: string, teamConfig: TeamConfig): Promise<RestoreResult> {
+    const { teamId, apiKey } = teamConfig;
+    const restoreResult = this.createResult(teamId);
+    const result: RestoreResult = {
+      success: false,
+      membersRestored: 0,
+      membersUpdated: 0,
+      membersUnchanged: 0,
+      skipped: restoreResult.skipped,
+      unmappedEmails: restoreResult.unmappedEmails,
+      members: restoreResult.members,
+      errors: restoreResult.errors,
+    };
+
+    this.logger.info(`Restoring members for team: ${teamId}`);
+    this.logger.info(`From backup file: ${backupFilePath}`);
+    this.logger.info(`Mode: ${this.options.dryRun ? 'DRY RUN' : 'LIVE'}`);
+
+    const journal = this.options.journal;
+    if (journal?.isTeamCompleted(teamId)) {
+      this.logger.info(`Team ${teamId} was already restored according to journal ${journal.path}, skipping`);
+      result.success = true;
+      return result;
+    }
+
+    try {
+      // Read and validate the backup before anything is sent
+      let backup: BackupContents;
+      try {
+        backup = readBackup(backupFilePath, this.options.backup);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        this.logger.error(errorMessage);
+        result.errors.push(errorMessage);
+        return result;
+      }
+
+      const { metadata, members } = backup;
+
+      if (metadata) {
+        this.logger.info(
+          `Backup of team ${metadata.teamId} from ${metadata.apiUrl}, created at ${metadata.createdAt} by version ${metadata.toolVersion}`
+        );
+        this.logger.info(backup.keySource ? `Backup encrypted with the key from ${backup.keySource}` : 'Backup is not encrypted');
+      } else {
+        this.logger.warn('Legacy backup without metadata or checksum; only the member fields could be validated');
+      }
+
+      // Never invite one team's members into another team by accident
+      const backupTeamId = getBackupTeamId(backupFilePath, backup);
+      if (backupTeamId !== teamId) {
+        const mismatch = backupTeamId
+          ? `Backup belongs to team ${backupTeamId}, not team ${teamId}`
+          : `Backup doesn't record its team, so it can't be checked against team ${teamId}`;
+
+        if (!this.options.allowTeamMismatch) {
+          this.logger.error(mismatch);
+          result.errors.push(mismatch);
+          return result;
+        }
+
+        this.logger.warn(`${mismatch}; restoring anyway because team mismatches are allowed`);
+      }
+
+      this.logger.info(`Found ${members.length} members in backup file`);
+
+      const membersResponse = await this.client.getMembers(teamId, apiKey);
+
+      if (membersResponse.status !== 200) {
+        result.errors.push(`Failed to get members: ${membersResponse.statusText}`);
+        return result;
+      }
+
+      const diff = this.diffBackup(members, membersResponse.data, this.createTeamSelector(teamConfig), restoreResult);
+      result.membersUnchanged = diff.unchanged.length;
+      this.logRestoreDiff(teamId, diff);
+
+      // Invite the members missing from the team
+      await this.forEachMember(diff.missing, (member) => member.email, async (member) => {
+        try {
+          this.recordMember(teamId, member);
+          const restored = await this.runStep(
+            member,
+            teamId,
+            'invite',
+            restoreResult,
+            () => this.sendNewInvitation(member, teamConfig, restoreResult),
+            this.resolveInviteEmail(member).email
+          );
+
+          if (restored) {
+            result.membersRestored++;
+          }
         } catch (error) {
           const errorMessage = error instanceof Error ? error.message : String(error);
           result.errors.push(`Error restoring member ${member.email}: ${errorMessage}`);
-          console.error(`Error restoring member ${member.email}:`, error);
+          this.logger.error(`Error restoring member ${member.email}`, { error });
         }
+      });
+
+      // Restore the access of members that are still in the team
+      await this.forEachMember(diff.drifted, ({ current }) => current.email, async ({ backup: member, current }) => {
+        try {
+          this.recordMember(teamId, current);
+          const updated = await this.runStep(current, teamId, 'update', restoreResult, () =>
+            this.restoreMemberAccess(member, current, teamConfig, restoreResult)
+          );
+
+          if (updated) {
+            result.membersUpdated++;
+          }
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : String(error);
+          result.errors.push(`Error restoring access of member ${current.email}: ${errorMessage}`);
+          this.logger.error(`Error restoring access of member ${current.email}`, { error });
+        }
+      });
+
+      if (result.errors.length === 0) {
+        this.recordTeamCompleted(teamId);
       }
 
-      result.success = result.membersRestored > 0;
+      result.success = result.errors.length === 0;
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
       result.errors.push(`Error restoring from backup: ${errorMessage}`);
-      console.error(`Error restoring from backup:`, error);
+      this.logger.error('Error restoring from backup', { error });
+    }
+
+    return result;
+  }
+
+  /**
+   * Compare backed up members with the current members of the team. A backed
+   * up member is still in the team if an account with its subject, its
+   * invitation email or its original email exists.
+   * @param backupMembers The backed up members
+   * @param currentMembers The current members of the team
+   * @param teamSelector The selector for the team's own rules
+   * @param result The result to record skipped and unchanged members in
+   * @returns The restore diff
+   */
+  private diffBackup(
+    backupMembers: Member[],
+    currentMembers: Member[],
+    teamSelector: MemberSelector | undefined,
+    result: MigrationResult
+  ): RestoreDiff {
+    const diff: RestoreDiff = { missing: [], drifted: [], unchanged: [] };
+
+    for (const member of backupMembers) {
+      // Skip ignored emails and members not selected by the rules
+      const skipReason = this.getSkipReason(member, teamSelector);
+      if (skipReason) {
+        this.skipMember(member, skipReason, result);
+        continue;
+      }
+
+      const inviteEmail = this.resolveInviteEmail(member).email.toLowerCase();
+      const current =
+        currentMembers.find((candidate) => candidate.subject === member.subject) ??
+        currentMembers.find((candidate) => candidate.email.toLowerCase() === inviteEmail) ??
+        currentMembers.find((candidate) => candidate.email.toLowerCase() === member.email.toLowerCase());
+
+      if (!current) {
+        diff.missing.push(member);
+        continue;
+      }
+
+      const changes = describeAccessChanges(current, member);
+      if (changes.length > 0) {
+        diff.drifted.push({ backup: member, current, changes });
+      } else {
+        diff.unchanged.push(current);
+        this.recordOutcome(result, current, 'skip', { status: 'skipped', reason: 'Already in team with the backed up access' });
+      }
+    }
+
+    return diff;
+  }
+
+  /**
+   * Log what a restore is going to change
+   * @param teamId The team ID
+   * @param diff The restore diff
+   */
+  private logRestoreDiff(teamId: string, diff: RestoreDiff): void {
+    this.logger.info(
+      `Restore diff for team ${teamId}: ${diff.missing.length} to invite, ${diff.drifted.length} to update, ${diff.unchanged.length} unchanged`
+    );
+
+    for (const member of diff.missing) {
+      const projectCount = Object.keys(member.projects).length;
+      this.logger.info(
+        `  + invite ${this.resolveInviteEmail(member).email}${member.isTeamAdmin ? ' (team admin)' : ''} with ${projectCount} projects`
+      );
+    }
+
+    for (const { current, changes } of diff.drifted) {
+      this.logger.info(`  ~ update ${current.email}: ${changes.join('; ')}`);
+    }
+  }
+
+  /**
+   * Restore the admin flag and project access a member had in the backup
+   * @param backupMember The member as backed up
+   * @param current The member as currently in the team
+   * @param teamConfig The team configuration
+   * @param result The migration result to update
+   */
+  private async restoreMemberAccess(
+    backupMember: Member,
+    current: Member,
+    teamConfig: TeamConfig,
+    result: MigrationResult
+  ): Promise<boolean> {
+    const { teamId, apiKey } = teamConfig;
+    const updateRequest: UpdateMemberRequest = {
+      identity_subject: current.subject,
+      teamId,
+      isAdmin: backupMember.isTeamAdmin,
+      projects: convertMemberProjectsToInvites(backupMember),
+    };
+
+    this.logger.info(`Restoring access of ${current.email}`);
+
+    if (this.options.dryRun) {
+      this.logger.info(`[DRY RUN] Would restore access of ${current.email}`);
+      this.recordOutcome(result, current, 'update', { status: 'dry-run' });
+      return true;
+    }
+
+    this.logger.debug(`Sending update request for ${current.email}`, { request: updateRequest });
+
+    const response = await this.sendMemberRequest(
+      result,
+      current,
+      'update',
+      { method: 'update', request: updateRequest },
+      apiKey
+    );
+
+    if (!response) {
+      return false;
+    }
+
+    if (response.status >= 200 && response.status < 300) {
+      this.logger.info(`Successfully restored access of ${current.email}`);
+      return true;
+    } else {
+      const errorMessage = `Failed to restore access of ${current.email}: ${response.statusText}`;
+      this.logger.error(errorMessage);
+      this.logger.debug('Response data', { data: response.data });
+      result.errors.push(errorMessage);
+      return false;
+    }
+  }
+
+  /**
+   * Roll back the changes a migration run made to a team, using the run's
+   * journal: members marked obsolete get their original name, admin flag and
+   * project access back, accounts created by the run's invitations are
+   * removed, and deleted members are invited again with the access they had
+   * in the backup taken before the run. Steps whose effect is already undone
+   * are skipped, so a rollback can be repeated.
+   * @param journal The journal of the migration run
+   * @param teamConfig The team configuration with ID and API key
+   * @returns Rollback result
+   */
+  async rollbackTeam(journal: MigrationJournal, teamConfig: TeamConfig): Promise<RollbackResult> {
+    const result = await this.rollbackTeamChanges(journal, teamConfig);
+    await this.hooks.onTeamCompleted?.({ operation: 'rollback', teamId: teamConfig.teamId, result });
+    return result;
+  }
+
+  private async rollbackTeamChanges(journal: MigrationJournal, teamConfig: TeamConfig): Promise<RollbackResult> {
+    const { teamId, apiKey } = teamConfig;
+    const stepResult = this.createResult(teamId);
+    const result: RollbackResult = {
+      teamId,
+      success: false,
+      membersRenamedBack: 0,
+      invitationsRemoved: 0,
+      membersRecreated: 0,
+      members: stepResult.members,
+      errors: stepResult.errors,
+    };
+
+    this.logger.info(`Rolling back team: ${teamId}`);
+    this.logger.info(`From journal: ${journal.path}`);
+    this.logger.info(`Mode: ${this.options.dryRun ? 'DRY RUN' : 'LIVE'}`);
+
+    try {
+      const snapshots = journal.getRecordedMembers(teamId);
+      if (snapshots.length === 0) {
+        this.logger.info(`Journal records no changes to team ${teamId}`);
+        result.success = true;
+        return result;
+      }
+
+      const membersResponse = await this.client.getMembers(teamId, apiKey);
+
+      if (membersResponse.status !== 200) {
+        result.errors.push(`Failed to get members: ${membersResponse.statusText}`);
+        return result;
+      }
+
+      const currentMembers = membersResponse.data;
+      const backupMembers = this.readRollbackBackup(journal, teamId, result);
+      if (!backupMembers) {
+        return result;
+      }
+
+      // Give members marked obsolete their original name and access back
+      const marked = snapshots.filter((member) => journal.isStepCompleted(teamId, member.subject, 'obsolete-mark'));
+      await this.forEachMember(marked, (member) => member.email, async (member) => {
+        try {
+          const current = currentMembers.find((candidate) => candidate.subject === member.subject);
+          if (!current) {
+            const errorMessage = `Cannot rename ${member.email} back: the member is no longer in team ${teamId}`;
+            this.logger.error(errorMessage);
+            result.errors.push(errorMessage);
+            return;
+          }
+
+          if (current.name === member.name && describeAccessChanges(current, member).length === 0) {
+            this.recordOutcome(stepResult, current, 'update', { status: 'skipped', reason: 'Already rolled back' });
+            return;
+          }
+
+          if (await this.revertObsoleteMark(member, teamConfig, stepResult)) {
+            result.membersRenamedBack++;
+          }
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : String(error);
+          result.errors.push(`Error renaming member ${member.email} back: ${errorMessage}`);
+          this.logger.error(`Error renaming member ${member.email} back`, { error });
+        }
+      });
+
+      // Remove the accounts created by the run's invitations
+      const created = currentMembers.filter(
+        (member) => journal.isCreatedByRun(teamId, member) && !backupMembers.has(member.subject)
+      );
+      await this.forEachMember(created, (member) => member.email, async (member) => {
+        try {
+          if (await this.deleteMember(member, teamConfig, stepResult)) {
+            result.invitationsRemoved++;
+          }
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : String(error);
+          result.errors.push(`Error removing invited member ${member.email}: ${errorMessage}`);
+          this.logger.error(`Error removing invited member ${member.email}`, { error });
+        }
+      });
+
+      // Invite deleted members again, with the access they had before the run
+      const remaining = currentMembers.filter((member) => !created.includes(member));
+      const deleted = snapshots.filter((member) => journal.isStepCompleted(teamId, member.subject, 'delete'));
+      await this.forEachMember(deleted, (member) => member.email, async (snapshot) => {
+        const member = backupMembers.get(snapshot.subject) ?? snapshot;
+
+        try {
+          if (remaining.some((candidate) => candidate.email.toLowerCase() === member.email.toLowerCase())) {
+            this.recordOutcome(stepResult, member, 'invite', { status: 'skipped', reason: 'Already back in team' });
+            return;
+          }
+
+          if (await this.recreateDeletedMember(member, teamConfig, stepResult)) {
+            result.membersRecreated++;
+          }
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : String(error);
+          result.errors.push(`Error re-creating member ${member.email}: ${errorMessage}`);
+          this.logger.error(`Error re-creating member ${member.email}`, { error });
+        }
+      });
+
+      result.success = result.errors.length === 0;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      result.errors.push(`Error rolling back team ${teamId}: ${errorMessage}`);
+      this.logger.error(`Error rolling back team ${teamId}`, { error });
+    }
+
+    return result;
+  }
+
+  /**
+   * Read the backup a migration run took of a team before changing it
+   * @param journal The journal of the migration run
+   * @param teamId The team ID
+   * @param result The rollback result to record errors in
+   * @returns The backed up members by subject; empty if the run took no backup,
+   * or undefined if the backup can't be used
+   */
+  private readRollbackBackup(
+    journal: MigrationJournal,
+    teamId: string,
+    result: RollbackResult
+  ): Map<string, Member> | undefined {
+    const backupPath = journal.getBackupPath(teamId);
+    if (!backupPath) {
+      this.logger.warn(`Journal records no backup for team ${teamId}; using the member snapshots in the journal`);
+      return new Map();
+    }
+
+    try {
+      const backup = readBackup(backupPath, this.options.backup);
+      const backupTeamId = getBackupTeamId(backupPath, backup);
+      if (backupTeamId !== undefined && backupTeamId !== teamId) {
+        throw new Error(`Backup ${backupPath} belongs to team ${backupTeamId}, not team ${teamId}`);
+      }
+
+      this.logger.info(`Using backup: ${backupPath}`);
+      return new Map(backup.members.map((member) => [member.subject, member]));
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      this.logger.error(errorMessage);
+      result.errors.push(errorMessage);
+      return undefined;
+    }
+  }
+
+  /**
+   * Restore the name, admin flag and project access a member had before it was
+   * marked obsolete
+   * @param member The member snapshot recorded before it was marked obsolete
+   * @param teamConfig The team configuration
+   * @param result The migration result to update
+   */
+  private async revertObsoleteMark(
+    member: Member,
+    teamConfig: TeamConfig,
+    result: MigrationResult
+  ): Promise<boolean> {
+    const { teamId, apiKey } = teamConfig;
+    const updateRequest: UpdateMemberRequest = {
+      identity_subject: member.subject,
+      teamId,
+      name: member.name,
+      isAdmin: member.isTeamAdmin,
+      projects: convertMemberProjectsToInvites(member),
+    };
+
+    this.logger.info(`Renaming member back: ${member.email} -> ${member.name}`);
+
+    if (this.options.dryRun) {
+      this.logger.info(`[DRY RUN] Would rename ${member.email} back to ${member.name}`);
+      this.recordOutcome(result, member, 'update', { status: 'dry-run' });
+      return true;
+    }
+
+    this.logger.debug(`Sending update request for ${member.email}`, { request: updateRequest });
+
+    const response = await this.sendMemberRequest(
+      result,
+      member,
+      'update',
+      { method: 'update', request: updateRequest },
+      apiKey
+    );
+
+    if (!response) {
+      return false;
+    }
+
+    if (response.status >= 200 && response.status < 300) {
+      this.logger.info(`Successfully renamed ${member.email} back to ${member.name}`);
+      return true;
+    } else {
+      const errorMessage = `Failed to rename ${member.email} back: ${response.statusText}`;
+      this.logger.error(errorMessage);
+      this.logger.debug('Response data', { data: response.data });
+      result.errors.push(errorMessage);
+      return false;
+    }
+  }
+
+  /**
+   * Invite a deleted member again with its original email and access
+   * @param member The member as backed up before it was deleted
+   * @param teamConfig The team configuration
+   * @param result The migration result to update
+   */
+  private async recreateDeletedMember(
+    member: Member,
+    teamConfig: TeamConfig,
+    result: MigrationResult
+  ): Promise<boolean> {
+    const { teamId, apiKey } = teamConfig;
+    const inviteRequest: InviteMemberRequest = {
+      ...this.buildInviteRequest(member, teamId),
+      email: member.email,
+    };
+
+    this.logger.info(`Re-creating deleted member: ${member.name} (${member.email})`);
+
+    if (this.options.dryRun) {
+      this.logger.info(`[DRY RUN] Would send invitation to ${member.email}`);
+      result.invitationsSent++;
+      this.recordOutcome(result, member, 'invite', { status: 'dry-run', targetEmail: member.email });
+      return true;
+    }
+
+    return !!(await this.submitInvite(inviteRequest, member, apiKey, result));
+  }
+
+  /**
+   * Verify a completed migration against the backup taken before it. Every
+   * backed up member the migration selected must have a new account, with the
+   * invitation email, that has exactly the backed up admin flag, projects,
+   * roles and custom permissions, as changed by the access remap. Accounts
+   * still marked obsolete are listed as leftovers; they only fail the
+   * verification if the deprovisioning strategy deletes old accounts, or
+   * failOnObsolete is set, since marking them obsolete means keeping them.
+   * @param backupFilePath Path to the pre-migration backup
+   * @param teamConfig The team configuration with ID and API key
+   * @returns Verification result
+   */
+  async verifyTeam(backupFilePath: string, teamConfig: TeamConfig): Promise<VerificationResult> {
+    const { teamId, apiKey } = teamConfig;
+    const result: VerificationResult = {
+      teamId,
+      membersVerified: 0,
+      missing: [],
+      drifted: [],
+      obsoleteAccounts: [],
+      obsoleteAccountsFail: this.deprovision?.name === 'delete' || !!this.options.failOnObsolete,
+      skipped: [],
+      errors: [],
+      passed: false,
+    };
+
+    this.logger.info(`Verifying team: ${teamId}`);
+    this.logger.info(`Against backup file: ${backupFilePath}`);
+
+    try {
+      const backup = readBackup(backupFilePath, this.options.backup);
+      const backupTeamId = getBackupTeamId(backupFilePath, backup);
+      if (backupTeamId !== teamId) {
+        const mismatch = backupTeamId
+          ? `Backup belongs to team ${backupTeamId}, not team ${teamId}`
+          : `Backup doesn't record its team, so it can't be checked against team ${teamId}`;
+
+        if (!this.options.allowTeamMismatch) {
+          this.logger.error(mismatch);
+          result.errors.push(mismatch);
+          return result;
+        }
+
+        this.logger.warn(`${mismatch}; verifying anyway because team mismatches are allowed`);
+      }
+
+      const membersResponse = await this.client.getMembers(teamId, apiKey);
+
+      if (membersResponse.status !== 200) {
+        result.errors.push(`Failed to get members: ${membersResponse.statusText}`);
+        return result;
+      }
+
+      const currentMembers = membersResponse.data;
+      const teamSelector = this.createTeamSelector(teamConfig);
+
+      for (const member of backup.members) {
+        const skipReason = this.getSkipReason(member, teamSelector);
+        if (skipReason) {
+          result.skipped.push({ email: member.email, subject: member.subject, reason: skipReason });
+          continue;
+        }
+
+        // A backup taken after an earlier run holds old accounts next to their
+        // replacements; only the old accounts are verified
+        const replaced = backup.members.find((other) => this.isReplacementOf(member, other, teamId));
+        if (replaced) {
+          result.skipped.push({
+            email: member.email,
+            subject: member.subject,
+            reason: `Replacement account for ${replaced.email} in the backup`,
+          });
+          continue;
+        }
+
+        // The new account is the one with the invitation email that isn't
+        // the migrated account itself
+        const newEmail = this.resolveInviteEmail(member).email;
+        const newMember = currentMembers.find(
+          (candidate) =>
+            candidate.subject !== member.subject &&
+            candidate.email.toLowerCase() === newEmail.toLowerCase() &&
+            !this.isRenamed(candidate.name)
+        );
+
+        if (!newMember) {
+          this.logger.warn(`No new account for ${member.email} (expected ${newEmail})`);
+          result.missing.push(member.email);
+          continue;
+        }
+
+        // The new account is expected to have the remapped access
+        const expected = {
+          isTeamAdmin: member.isTeamAdmin,
+          projects: this.options.accessRemapper?.remapProjects(member) ?? member.projects,
+        };
+        const { lost, gained } = compareAccess(expected, newMember);
+        if (lost.length > 0 || gained.length > 0) {
+          this.logger.warn(`Access of ${newMember.email} differs from the backup of ${member.email}`);
+          result.drifted.push({ email: member.email, newEmail: newMember.email, lost, gained });
+          continue;
+        }
+
+        result.membersVerified++;
+      }
+
+      result.obsoleteAccounts = currentMembers
+        .filter((member) => this.isRenamed(member.name))
+        .map((member) => member.email);
+
+      this.logger.info(
+        `Verified ${result.membersVerified} members in team ${teamId}: ${result.missing.length} missing, ${result.drifted.length} with different access, ${result.obsoleteAccounts.length} obsolete accounts left`
+      );
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      result.errors.push(`Error verifying team ${teamId}: ${errorMessage}`);
+      this.logger.error(`Error verifying team ${teamId}`, { error });
     }
 
+    result.passed =
+      result.missing.length === 0 &&
+      result.drifted.length === 0 &&
+      result.errors.length === 0 &&
+      (result.obsoleteAccounts.length === 0 || !result.obsoleteAccountsFail);
+
     return result;
   }
 }
@@ -0,0 +1,133 @@
+import { Member } from '../types/uniform-api';
+
+/**
+ * How a team is migrated in waves: a canary wave first, then the remaining
+ * members in batches, with a health check between waves
+ */
+export interface WaveOptions {
+  /** Members migrated in the canary wave */
+  canaryEmails?: string[];
+  /** Without canaryEmails, the number of members, in team order, migrated in the canary wave */
+  canarySize?: number;
+  /** Members per wave after the canary; without it, the rest of the team is one wave */
+  batchSize?: number;
+  /** Time to wait after the canary wave, in milliseconds; defaults to intervalMs */
+  canaryPauseMs?: number;
+  /** Time to wait between the other waves, in milliseconds */
+  intervalMs?: number;
+  /** Highest percentage of migrated members with errors before the rollout stops; defaults to 0 */
+  maxErrorPercent?: number;
+}
+
+export interface Wave<T> {
+  /** "canary", or "wave N" for the batches after it */
+  name: string;
+  members: T[];
+}
+
+export interface WaveSummary {
+  name: string;
+  members: number;
+  /** Errors recorded while the wave ran */
+  errors: number;
+  completedAt: string;
+}
+
+/**
+ * How far a team's rollout got
+ */
+export interface RolloutStatus {
+  wavesPlanned: number;
+  /** The waves that ran, in order; the health check runs after each of them */
+  completedWaves: WaveSummary[];
+  lastCompletedWave?: string;
+  /** Why the rollout stopped before its last wave; undefined if every wave ran */
+  stoppedReason?: string;
+  /** Members of the waves that never started */
+  membersNotStarted: number;
+}
+
+/**
+ * Check wave options before a rollout starts
+ * @param options The wave options
+ */
+export function validateWaveOptions(options: WaveOptions): void {
+  const { canarySize, batchSize, canaryPauseMs, intervalMs, maxErrorPercent } = options;
+
+  for (const [name, value] of [
+    ['Canary size', canarySize],
+    ['Batch size', batchSize],
+  ] as const) {
+    if (value !== undefined && (!Number.isInteger(value) || value < 1)) {
+      throw new Error(`${name} must be a positive integer`);
+    }
+  }
+
+  for (const [name, value] of [
+    ['Canary pause', canaryPauseMs],
+    ['Wave interval', intervalMs],
+  ] as const) {
+    if (value !== undefined && (!Number.isFinite(value) || value < 0)) {
+      throw new Error(`${name} must be a non-negative number`);
+    }
+  }
+
+  if (maxErrorPercent !== undefined && (!Number.isFinite(maxErrorPercent) || maxErrorPercent < 0 || maxErrorPercent > 100)) {
+    throw new Error('Maximum error percentage must be a number from 0 to 100');
+  }
+}
+
+/**
+ * Split the members a rollout migrates into waves. Canary emails that aren't
+ * among the members are left out; if no member is in the canary, the rollout
+ * starts with the batches.
+ * @param members The members to migrate, in team order
+ * @param options The wave options
+ * @returns The waves, none of them empty
+ */
+export function planWaves<T extends Pick<Member, 'email'>>(members: T[], options: WaveOptions): Wave<T>[] {
+  let canary: T[] = [];
+
+  if (options.canaryEmails?.length) {
+    const canaryEmails = new Set(options.canaryEmails.map((email) => email.toLowerCase()));
+    canary = members.filter((member) => canaryEmails.has(member.email.toLowerCase()));
+  } else if (options.canarySize) {
+    canary = members.slice(0, options.canarySize);
+  }
+
+  const inCanary = new Set(canary);
+  const rest = members.filter((member) => !inCanary.has(member));
+  const batchSize = options.batchSize || rest.length;
+  const waves: Wave<T>[] = canary.length > 0 ? [{ name: 'canary', members: canary }] : [];
+
+  for (let start = 0; start < rest.length; start += batchSize) {
+    waves.push({ name: `wave ${start / batchSize + 1}`, members: rest.slice(start, start + batchSize) });
+  }
+
+  return waves;
+}
+
+/**
+ * Describe wave options for run headers
+ * @param options The wave options, if the run uses waves
+ * @returns A one-line description
+ */
+export function describeWaveOptions(options: WaveOptions | undefined): string {
+  if (!options) {
+    return 'disabled';
+  }
+
+  const canary = options.canaryEmails?.length
+    ? `canary ${options.canaryEmails.join(', ')}`
+    : options.canarySize
+      ? `canary of ${options.canarySize}`
+      : 'no canary';
+  const batches = options.batchSize ? `batches of ${options.batchSize}` : 'then the rest';
+  const pause = options.canaryPauseMs ?? options.intervalMs;
+  const schedule = [
+    ...(pause ? [`${pause / 1000}s after the canary`] : []),
+    ...(options.intervalMs ? [`${options.intervalMs / 1000}s between waves`] : []),
+  ];
+
+  return [canary, batches, ...schedule, `stop above ${options.maxErrorPercent ?? 0}% errors`].join(', ');
+}
@@ -0,0 +1,266 @@
+import { RemappedAccess } from './access-remapper';
+import { MemberOutcome, MemberState, MigrationResult } from './migration-service';
+import { RolloutStatus } from './rollout-waves';
+import * as fs from 'fs';
+import * as path from 'path';
+
+export type ReportFormat = 'json' | 'csv' | 'html';
+
+export type ReportOperation = 'migrate' | 'apply' | 'restore' | 'rollback';
+
+export interface TeamReport {
+  teamId: string;
+  counts: Record<string, number>;
+  backupPath?: string;
+  members: MemberOutcome[];
+  /** Where every member was left; migrations and applied plans only */
+  memberStates?: MemberState[];
+  /** How far the rollout got, for teams migrated in waves */
+  rollout?: RolloutStatus;
+  /** The members whose access the access remap changed, before and after; migrations and applied plans only */
+  remappedAccess?: RemappedAccess[];
+  errors: string[];
+}
+
+export interface RunReport {
+  operation: ReportOperation;
+  apiUrl: string;
+  dryRun: boolean;
+  startedAt: string;
+  completedAt: string;
+  teams: TeamReport[];
+}
+
+const REPORT_EXTENSIONS: Record<string, ReportFormat> = {
+  '.json': 'json',
+  '.csv': 'csv',
+  '.html': 'html',
+  '.htm': 'html',
+};
+
+const CSV_COLUMNS: (keyof MemberOutcome)[] = [
+  'teamId',
+  'email',
+  'subject',
+  'action',
+  'status',
+  'targetEmail',
+  'httpStatus',
+  'error',
+  'reason',
+  'startedAt',
+  'completedAt',
+];
+
+/**
+ * Get the format of a report from its file extension
+ * @param filePath The report file path
+ * @returns The report format
+ */
+export function getReportFormat(filePath: string): ReportFormat {
+  const format = REPORT_EXTENSIONS[path.extname(filePath).toLowerCase()];
+  if (!format) {
+    throw new Error(`Unsupported report file ${filePath}: use a .json, .csv or .html extension`);
+  }
+  return format;
+}
+
+/**
+ * Build the report entry of a team from its migration result
+ * @param result The migration result
+ * @returns The team report
+ */
+export function createTeamReport(result: MigrationResult): TeamReport {
+  return {
+    teamId: result.teamId,
+    counts: {
+      membersFound: result.membersFound,
+      membersSkipped: result.skippedMembers,
+      membersAlreadyMigrated: result.membersAlreadyMigrated,
+      membersMarkedObsolete: result.membersMarkedObsolete,
+      membersDeleted: result.membersDeleted,
+      invitationsSent: result.invitationsSent,
+      membersNotMigrated: result.memberStates.filter((memberState) => memberState.state !== 'migrated').length,
+      errors: result.errors.length,
+    },
+    backupPath: result.backupPath,
+    members: result.members,
+    memberStates: result.memberStates,
+    rollout: result.rollout,
+    remappedAccess: result.remappedAccess,
+    errors: result.errors,
+  };
+}
+
+/**
+ * Write a run report, in the format given by the file extension
+ * @param report The run report
+ * @param filePath The report file path
+ */
+export function writeReport(report: RunReport, filePath: string): void {
+  const format = getReportFormat(filePath);
+  const reportDir = path.dirname(path.resolve(filePath));
+  if (!fs.existsSync(reportDir)) {
+    fs.mkdirSync(reportDir, { recursive: true });
+  }
+
+  const content =
+    format === 'json' ? JSON.stringify(report, null, 2) : format === 'csv' ? renderCsv(report) : renderHtml(report);
+
+  fs.writeFileSync(filePath, content, 'utf8');
+}
+
+/**
+ * Render one CSV row per member outcome
+ * @param report The run report
+ * @returns The CSV document
+ */
+function renderCsv(report: RunReport): string {
+  const rows = report.teams.flatMap((team) =>
+    team.members.map((outcome) => CSV_COLUMNS.map((column) => csvField(outcome[column])).join(','))
+  );
+  return [CSV_COLUMNS.join(','), ...rows].join('\r\n') + '\r\n';
+}
+
+function csvField(value: unknown): string {
+  if (value === undefined || value === null) {
+    return '';
+  }
+
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Render a self-contained HTML page with a summary and the outcome of every member
+ * @param report The run report
+ * @returns The HTML document
+ */
+function renderHtml(report: RunReport): string {
+  const teams = report.teams
+    .map((team) => {
+      const counts = Object.entries(team.counts)
+        .map(([name, value]) => `<tr><th>${escapeHtml(name)}</th><td>${value}</td></tr>`)
+        .join('');
+      const rows = team.members
+        .map(
+          (outcome) =>
+            `<tr class="${outcome.status}">` +
+            [
+              outcome.email,
+              outcome.action,
+              outcome.status,
+              outcome.targetEmail,
+              outcome.httpStatus,
+              outcome.error ?? outcome.reason,
+              outcome.completedAt,
+            ]
+              .map((value) => `<td>${escapeHtml(value === undefined ? '' : String(value))}</td>`)
+              .join('') +
+            '</tr>'
+        )
+        .join('\n');
+      const unfinished = (team.memberStates || []).filter((memberState) => memberState.state !== 'migrated');
+      const states = unfinished.length > 0
+        ? `<h3>Members not fully migrated</h3><table><thead><tr><th>Email</th><th>State</th><th>Detail</th></tr></thead><tbody>` +
+          unfinished
+            .map(
+              (memberState) =>
+                `<tr class="${memberState.state}">` +
+                [memberState.email, memberState.state, memberState.detail]
+                  .map((value) => `<td>${escapeHtml(value ?? '')}</td>`)
+                  .join('') +
+                '</tr>'
+            )
+            .join('\n') +
+          '</tbody></table>'
+        : '';
+      const remapped = team.remappedAccess?.length
+        ? `<h3>Remapped access</h3><table><thead><tr><th>Email</th><th>Before</th><th>After</th><th>Changes</th></tr></thead><tbody>` +
+          team.remappedAccess
+            .map(
+              (remappedAccess) =>
+                '<tr>' +
+                [
+                  remappedAccess.email,
+                  JSON.stringify(remappedAccess.before),
+                  JSON.stringify(remappedAccess.after),
+                  remappedAccess.changes.join('; '),
+                ]
+                  .map((value) => `<td>${escapeHtml(value)}</td>`)
+                  .join('') +
+                '</tr>'
+            )
+            .join('\n') +
+          '</tbody></table>'
+        : '';
+      const errors = team.errors.length > 0
+        ? `<h3>Errors</h3><ol>${team.errors.map((error) => `<li>${escapeHtml(error)}</li>`).join('')}</ol>`
+        : '';
+      const backup = team.backupPath ? `<p>Backup: <code>${escapeHtml(team.backupPath)}</code></p>` : '';
+      const rollout = team.rollout
+        ? `<p>Waves completed: ${team.rollout.completedWaves.length} of ${team.rollout.wavesPlanned}` +
+          (team.rollout.lastCompletedWave ? ` (last: ${escapeHtml(team.rollout.lastCompletedWave)})` : '') +
+          (team.rollout.stoppedReason
+            ? `. Stopped: ${escapeHtml(team.rollout.stoppedReason)}; ${team.rollout.membersNotStarted} members not started`
+            : '') +
+          '</p>'
+        : '';
+
+      return `<section>
+<h2>Team ${escapeHtml(team.teamId)}</h2>
+${backup}
+${rollout}
+<table class="counts">${counts}</table>
+<table>
+<thead><tr><th>Email</th><th>Action</th><th>Status</th><th>Target email</th><th>HTTP status</th><th>Error / reason</th><th>Completed at</th></tr></thead>
+<tbody>
+${rows}
+</tbody>
+</table>
+${states}
+${remapped}
+${errors}
+</section>`;
+    })
+    .join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Uniform SSO ${escapeHtml(report.operation)} report</title>
+<style>
+body { font-family: sans-serif; margin: 2em; color: #222; }
+table { border-collapse: collapse; margin: 1em 0; }
+th, td { border: 1px solid #ccc; padding: 4px 8px; text-align: left; font-size: 14px; }
+table.counts th { background: #f4f4f4; }
+tr.failed { background: #fde2e2; }
+tr.skipped { background: #f0f0f0; }
+tr.already-migrated { background: #fff8e1; }
+tr.dry-run { background: #e8f0fe; }
+tr.succeeded { background: #e6f4ea; }
+tr.old-account-kept, tr.unchanged, tr.compensated { background: #fff8e1; }
+tr.no-access { background: #fde2e2; }
+</style>
+</head>
+<body>
+<h1>Uniform SSO ${escapeHtml(report.operation)} report</h1>
+<p>API URL: <code>${escapeHtml(report.apiUrl)}</code><br>
+Mode: ${report.dryRun ? 'DRY RUN' : 'LIVE'}<br>
+Started: ${escapeHtml(report.startedAt)}<br>
+Completed: ${escapeHtml(report.completedAt)}</p>
+${teams}
+</body>
+</html>
+`;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
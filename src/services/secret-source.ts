@@ -0,0 +1,87 @@
+import { SecretReference } from '../types/uniform-api';
+import { execSync } from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+
+export interface ResolvedSecret {
+  /** Where the secret comes from, e.g. "env:TEAM_A_API_KEY"; safe to log */
+  source: string;
+  secret: string;
+}
+
+// Long enough for a password manager CLI to answer, short enough that a
+// command waiting for input doesn't hang the run
+const COMMAND_TIMEOUT_MS = 30000;
+
+/**
+ * Check whether a value is a reference to a secret rather than the secret itself
+ * @param value The value to check
+ * @returns Whether the value is a secret reference
+ */
+export function isSecretReference(value: unknown): value is SecretReference {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return false;
+  }
+
+  const keys = Object.keys(value);
+  return (
+    keys.length === 1 &&
+    ['env', 'file', 'command'].includes(keys[0]) &&
+    typeof (value as Record<string, unknown>)[keys[0]] === 'string'
+  );
+}
+
+/**
+ * Resolve a secret that is given directly or referenced: by the name of an
+ * environment variable, the path of a file, or a command whose standard
+ * output is the secret. Surrounding whitespace is removed.
+ * @param value The secret or a reference to it
+ * @param label What the secret is for, used in error messages, e.g. "API key of team t1"
+ * @returns The secret, with a description of its source
+ */
+export function resolveSecret(value: string | SecretReference, label: string): ResolvedSecret {
+  let secret: string | undefined;
+  let source: string;
+
+  if (typeof value === 'string') {
+    secret = value;
+    source = 'inline';
+  } else if ('env' in value) {
+    secret = process.env[value.env];
+    source = `env:${value.env}`;
+    if (secret === undefined) {
+      throw new Error(`Environment variable ${value.env} for the ${label} is not set`);
+    }
+  } else if ('file' in value) {
+    const secretPath = path.resolve(value.file);
+    source = `file:${secretPath}`;
+    if (!fs.existsSync(secretPath)) {
+      throw new Error(`File ${secretPath} for the ${label} not found`);
+    }
+    secret = fs.readFileSync(secretPath, 'utf8');
+  } else if ('command' in value) {
+    source = `command:${value.command}`;
+    try {
+      secret = execSync(value.command, {
+        encoding: 'utf8',
+        stdio: ['ignore', 'pipe', 'pipe'],
+        timeout: COMMAND_TIMEOUT_MS,
+      });
+    } catch (error) {
+      const stderr = (error as { stderr?: string }).stderr?.trim();
+      throw new Error(
+        `Command "${value.command}" for the ${label} failed` +
+          (stderr ? `: ${stderr}` : `: ${error instanceof Error ? error.message : String(error)}`)
+      );
+    }
+  } else {
+    throw new Error(`Invalid reference for the ${label}: use a string, or an object with env, file or command`);
+  }
+
+  secret = secret.trim();
+  if (!secret) {
+    throw new Error(`The ${label} from ${source} is empty`);
+  }
+
+  return { source, secret };
+}
@@ -0,0 +1,279 @@
+import { TeamOptionOverrides } from '../types/uniform-api';
+import { AccessRemapper } from './access-remapper';
+import { describeDeprovisionStrategy, DeprovisionStrategy, selectDeprovisionStrategy } from './deprovision-strategy';
+import { EmailMapper } from './email-mapper';
+import { MigrationOptions } from './migration-service';
+import { describeWaveOptions, validateWaveOptions } from './rollout-waves';
+
+/**
+ * The options a team is migrated with: the global options with the team's
+ * overrides applied
+ */
+export interface EffectiveTeamOptions {
+  apiUrl: string;
+  options: MigrationOptions;
+}
+
+const BOOLEAN_OPTIONS = ['markObsolete', 'deleteMembers', 'sendInvitationEmails', 'backup', 'allowMassDelete'] as const;
+
+const OPTION_KEYS: (keyof TeamOptionOverrides)[] = [
+  ...BOOLEAN_OPTIONS,
+  'apiUrl',
+  'deprovision',
+  'obsoleteNameTemplate',
+  'ignoredEmails',
+  'breakGlassEmails',
+  'backupDir',
+  'memberConcurrency',
+  'maxDeletes',
+  'maxDeletePercent',
+  'waves',
+  'emailMap',
+  'accessRemap',
+];
+
+/**
+ * Check the option overrides of a team before they are merged
+ * @param overrides The overrides from the teams file
+ * @param scope Where the overrides come from, used in error messages
+ */
+export function validateTeamOptions(overrides: TeamOptionOverrides, scope: string): void {
+  if (!overrides || typeof overrides !== 'object' || Array.isArray(overrides)) {
+    throw new Error(`Options in ${scope} must be an object`);
+  }
+
+  for (const key of Object.keys(overrides)) {
+    if (!OPTION_KEYS.includes(key as keyof TeamOptionOverrides)) {
+      throw new Error(`Unknown option "${key}" in ${scope}; supported options are ${OPTION_KEYS.join(', ')}`);
+    }
+  }
+
+  for (const key of BOOLEAN_OPTIONS) {
+    if (overrides[key] !== undefined && typeof overrides[key] !== 'boolean') {
+      throw new Error(`Option "${key}" in ${scope} must be a boolean`);
+    }
+  }
+
+  for (const key of ['apiUrl', 'deprovision', 'obsoleteNameTemplate', 'emailMap', 'accessRemap'] as const) {
+    if (overrides[key] !== undefined && typeof overrides[key] !== 'string') {
+      throw new Error(`Option "${key}" in ${scope} must be a string`);
+    }
+  }
+
+  if (overrides.backupDir !== undefined && (typeof overrides.backupDir !== 'string' || !overrides.backupDir)) {
+    throw new Error(`Option "backupDir" in ${scope} must be a non-empty string`);
+  }
+
+  for (const key of ['ignoredEmails', 'breakGlassEmails'] as const) {
+    const emails = overrides[key];
+    if (emails !== undefined && (!Array.isArray(emails) || emails.some((email) => typeof email !== 'string'))) {
+      throw new Error(`Option "${key}" in ${scope} must be an array of strings`);
+    }
+  }
+
+  const { maxDeletes, maxDeletePercent, waves } = overrides;
+  if (maxDeletes !== undefined && (!Number.isInteger(maxDeletes) || maxDeletes < 0)) {
+    throw new Error(`Option "maxDeletes" in ${scope} must be a non-negative integer`);
+  }
+
+  if (
+    maxDeletePercent !== undefined &&
+    (typeof maxDeletePercent !== 'number' || !Number.isFinite(maxDeletePercent) || maxDeletePercent < 0 || maxDeletePercent > 100)
+  ) {
+    throw new Error(`Option "maxDeletePercent" in ${scope} must be a number from 0 to 100`);
+  }
+
+  if (waves !== undefined) {
+    if (!waves || typeof waves !== 'object' || Array.isArray(waves)) {
+      throw new Error(`Option "waves" in ${scope} must be an object`);
+    }
+    if (waves.canaryEmails !== undefined && (!Array.isArray(waves.canaryEmails) || waves.canaryEmails.some((email) => typeof email !== 'string'))) {
+      throw new Error(`Option "waves.canaryEmails" in ${scope} must be an array of strings`);
+    }
+    for (const key of ['canarySize', 'batchSize', 'canaryPauseMs', 'intervalMs', 'maxErrorPercent'] as const) {
+      if (waves[key] !== undefined && typeof waves[key] !== 'number') {
+        throw new Error(`Option "waves.${key}" in ${scope} must be a number`);
+      }
+    }
+    try {
+      validateWaveOptions(waves);
+    } catch (error) {
+      throw new Error(`Option "waves" in ${scope} is invalid: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  if (overrides.markObsolete && overrides.deleteMembers) {
+    throw new Error(`Options "markObsolete" and "deleteMembers" in ${scope} can't both be true`);
+  }
+
+  if (overrides.deprovision !== undefined && (overrides.markObsolete !== undefined || overrides.deleteMembers !== undefined)) {
+    throw new Error(`Option "deprovision" in ${scope} replaces "markObsolete" and "deleteMembers"; don't combine them`);
+  }
+}
+
+/**
+ * Pick the deprovisioning strategy a team is migrated with. A team keeps the
+ * global strategy unless it names one, sets the legacy flags or changes the
+ * name template.
+ * @param defaults The global migration options
+ * @param overrides The team's overrides
+ * @param flags The team's merged legacy flags
+ * @returns The team's strategy, or undefined if old accounts are left alone
+ */
+function mergeDeprovisionStrategy(
+  defaults: MigrationOptions,
+  overrides: TeamOptionOverrides,
+  flags: { markObsolete: boolean; deleteMembers: boolean }
+): DeprovisionStrategy | undefined {
+  const legacyOverride = overrides.markObsolete !== undefined || overrides.deleteMembers !== undefined;
+  if (overrides.deprovision === undefined && overrides.obsoleteNameTemplate === undefined && !legacyOverride) {
+    return defaults.deprovision;
+  }
+
+  return selectDeprovisionStrategy(overrides.deprovision ?? (legacyOverride ? undefined : defaults.deprovision?.name), {
+    ...flags,
+    nameTemplate: overrides.obsoleteNameTemplate ?? defaults.deprovision?.nameTemplate,
+  });
+}
+
+/**
+ * Load a mapping file a team names, adding the team to the error message
+ * @param load Load the file
+ * @param description What the file is, used in error messages
+ * @param scope Where the file is named, used in error messages
+ * @returns The loaded mapping
+ */
+function loadTeamFile<T>(load: () => T, description: string, scope: string): T {
+  try {
+    return load();
+  } catch (error) {
+    throw new Error(`Error loading ${description} of ${scope}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Merge a team's option overrides with the global options, and check the
+ * result. Ignored and break-glass emails are added to the global ones; every
+ * other override replaces the global value, and a team's wave settings,
+ * email mapping file and access remap file replace the global ones as a
+ * whole. A team that turns on deleting members stops marking them obsolete,
+ * and the other way around; naming a deprovisioning strategy replaces both.
+ * @param apiUrl The global API URL
+ * @param defaults The global migration options
+ * @param overrides The team's overrides
+ * @param scope Where the overrides come from, used in error messages
+ * @returns The options the team is migrated with
+ */
+export function mergeTeamOptions(
+  apiUrl: string,
+  defaults: MigrationOptions,
+  overrides: TeamOptionOverrides = {},
+  scope: string
+): EffectiveTeamOptions {
+  validateTeamOptions(overrides, scope);
+
+  const flags = {
+    markObsolete: overrides.markObsolete ?? (overrides.deleteMembers ? false : defaults.markObsolete),
+    deleteMembers: overrides.deleteMembers ?? (overrides.markObsolete ? false : defaults.deleteMembers),
+  };
+
+  let deprovision: DeprovisionStrategy | undefined;
+  try {
+    deprovision = mergeDeprovisionStrategy(defaults, overrides, flags);
+  } catch (error) {
+    throw new Error(`Deprovisioning for ${scope} is invalid: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  if (overrides.deprovision !== undefined) {
+    flags.markObsolete = deprovision !== undefined && deprovision.name !== 'delete';
+    flags.deleteMembers = deprovision?.name === 'delete';
+  }
+
+  const effective: EffectiveTeamOptions = {
+    apiUrl: overrides.apiUrl ?? apiUrl,
+    options: {
+      ...defaults,
+      ...flags,
+      deprovision,
+      sendInvitationEmails: overrides.sendInvitationEmails ?? defaults.sendInvitationEmails,
+      ignoredEmails: [...new Set([...(defaults.ignoredEmails || []), ...(overrides.ignoredEmails || [])])],
+      breakGlassEmails: [...new Set([...(defaults.breakGlassEmails || []), ...(overrides.breakGlassEmails || [])])],
+      backup: {
+        ...defaults.backup,
+        enabled: overrides.backup ?? defaults.backup.enabled,
+        path: overrides.backupDir ?? defaults.backup.path,
+      },
+      memberConcurrency: overrides.memberConcurrency ?? defaults.memberConcurrency,
+      maxDeletes: overrides.maxDeletes ?? defaults.maxDeletes,
+      maxDeletePercent: overrides.maxDeletePercent ?? defaults.maxDeletePercent,
+      allowMassDelete: overrides.allowMassDelete ?? defaults.allowMassDelete,
+      waves: overrides.waves ?? defaults.waves,
+      emailMapper:
+        overrides.emailMap !== undefined
+          ? loadTeamFile(() => EmailMapper.fromFile(overrides.emailMap!), 'the email mapping', scope)
+          : defaults.emailMapper,
+      accessRemapper:
+        overrides.accessRemap !== undefined
+          ? loadTeamFile(() => AccessRemapper.fromFile(overrides.accessRemap!), 'the access remap file', scope)
+          : defaults.accessRemapper,
+    },
+  };
+
+  try {
+    const url = new URL(effective.apiUrl);
+    if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+      throw new Error(`unsupported protocol ${url.protocol}`);
+    }
+  } catch (error) {
+    throw new Error(
+      `API URL "${effective.apiUrl}" for ${scope} is invalid: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+
+  const { memberConcurrency } = effective.options;
+  if (memberConcurrency !== undefined && (!Number.isInteger(memberConcurrency) || memberConcurrency < 1)) {
+    throw new Error(`Member concurrency for ${scope} must be a positive integer`);
+  }
+
+  return effective;
+}
+
+/**
+ * Describe the options a team is migrated with, for run headers
+ * @param effective The team's effective options
+ * @returns One line per option
+ */
+export function describeTeamOptions(effective: EffectiveTeamOptions): string[] {
+  const { apiUrl, options } = effective;
+  return [
+    `API URL: ${apiUrl}`,
+    `Deprovisioning: ${describeDeprovisionStrategy(options.deprovision)}`,
+    `Send invitation emails: ${options.sendInvitationEmails ?? true}`,
+    `Backup: ${options.backup.enabled ? options.backup.path : 'disabled'}`,
+    `Ignored emails: ${options.ignoredEmails?.join(', ') || 'None'}`,
+    `Break-glass emails: ${options.breakGlassEmails?.join(', ') || 'None'}`,
+    `Member concurrency: ${options.memberConcurrency ?? 1}`,
+    `Delete limit: ${describeDeleteLimit(options)}`,
+    `Waves: ${describeWaveOptions(options.waves)}`,
+    `Email mapping: ${options.emailMapper?.describe() ?? 'None'}`,
+    `Access remapping: ${options.accessRemapper?.describe() ?? 'None'}`,
+  ];
+}
+
+/**
+ * Describe how many members a run may delete from a team, for run headers
+ * @param options The migration options
+ * @returns The description
+ */
+export function describeDeleteLimit(options: MigrationOptions): string {
+  if (options.allowMassDelete) {
+    return 'none (mass deletes allowed)';
+  }
+
+  const { maxDeletes, maxDeletePercent } = options;
+  const limits = [
+    ...(maxDeletes !== undefined ? [`${maxDeletes} member${maxDeletes === 1 ? '' : 's'}`] : []),
+    ...(maxDeletePercent !== undefined ? [`${maxDeletePercent}%`] : []),
+  ];
+  return limits.length > 0 ? `${limits.join(' and ')} per team` : 'none';
+}
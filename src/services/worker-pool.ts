@@ -0,0 +1,34 @@
+/**
+ * Process items with a fixed number of concurrent workers. Each worker picks
+ * the next unprocessed item as soon as it finishes the previous one, so items
+ * are started in order but may finish out of order.
+ *
+ * The worker is expected to handle its own errors; a rejected worker stops the
+ * pool from starting new items and rejects the returned promise.
+ * @param items The items to process
+ * @param concurrency The maximum number of items processed at the same time
+ * @param worker The function processing a single item
+ */
+export async function runPool<T>(
+  items: T[],
+  concurrency: number,
+  worker: (item: T, index: number) => Promise<void>
+): Promise<void> {
+  let nextIndex = 0;
+  let failed = false;
+  const workerCount = Math.max(1, Math.min(Math.floor(concurrency) || 1, items.length));
+
+  const runWorker = async () => {
+    while (!failed && nextIndex < items.length) {
+      const index = nextIndex++;
+      try {
+        await worker(items[index], index);
+      } catch (error) {
+        failed = true;
+        throw error;
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: workerCount }, runWorker));
+}
@@ -91,18 +91,132 @@ export interface DeleteMemberRequest {
   subject: string;
 }
 
+/** The answer to an invitation */
+export interface InviteMemberResponse {
+  /** The subject of the account the invitation created, if the API returns it */
+  subject?: string;
+  /** Why the invitation failed, in error answers */
+  message?: string;
+}
+
 export interface ApiResponse<T> {
   data: T;
   status: number;
   statusText: string;
 }
 
+export interface MemberSinceRange {
+  after?: string;
+  before?: string;
+}
+
+export interface MemberRule {
+  name?: string;
+  emails?: string[];
+  domains?: string[];
+  isTeamAdmin?: boolean;
+  projects?: string[];
+  roles?: string[];
+  memberSince?: MemberSinceRange;
+}
+
+export interface MemberSelectionRules {
+  include?: MemberRule[];
+  exclude?: MemberRule[];
+}
+
+/** How the access of one project changes when its members are invited again */
+export interface ProjectAccessRemap {
+  /** Role renames in this project, old to new; they take precedence over the global renames */
+  roles?: Record<string, string>;
+  /** Custom permissions replaced by other permissions, old to new */
+  replacePermissions?: Partial<Record<UniformPermission, UniformPermission>>;
+  /** Custom permissions added for every member of the project, including members that only have roles there */
+  grantPermissions?: UniformPermission[];
+}
+
+/** How member access changes when members are invited again */
+export interface AccessRemapRules {
+  /** Role renames in every project, old to new */
+  roles?: Record<string, string>;
+  /** Custom permissions removed from every project, e.g. deprecated ones */
+  dropPermissions?: UniformPermission[];
+  /** Rules for single projects, by project ID */
+  projects?: Record<string, ProjectAccessRemap>;
+  /**
+   * The permissions of standard roles, by role. Members whose custom
+   * permissions in a project are exactly a role's permissions get the role instead.
+   */
+  standardRoles?: Record<string, UniformPermission[]>;
+}
+
+/** A secret held elsewhere: in an environment variable, a file, or the output of a command */
+export type SecretReference = { env: string } | { file: string } | { command: string };
+
+/** Migration options a team overrides; anything left out uses the global option */
+export interface TeamOptionOverrides {
+  apiUrl?: string;
+  markObsolete?: boolean;
+  deleteMembers?: boolean;
+  /** A built-in deprovisioning strategy, or "none"; replaces markObsolete and deleteMembers */
+  deprovision?: string;
+  /** How the deprovisioning strategy renames old accounts, e.g. "OBSOLETE - {name}" */
+  obsoleteNameTemplate?: string;
+  sendInvitationEmails?: boolean;
+  /** Added to the globally ignored emails */
+  ignoredEmails?: string[];
+  /** Added to the global break-glass accounts */
+  breakGlassEmails?: string[];
+  backup?: boolean;
+  backupDir?: string;
+  memberConcurrency?: number;
+  /** Most members a run may delete from the team */
+  maxDeletes?: number;
+  /** Most members a run may delete from the team, as a percentage of its members */
+  maxDeletePercent?: number;
+  /** Lifts the delete limits for the team */
+  allowMassDelete?: boolean;
+  /** Migrate the team in waves with these settings instead of the global ones */
+  waves?: TeamWaveOptions;
+  /** Email mapping file of the team; replaces the global mapping and domain rewrites */
+  emailMap?: string;
+  /** Access remap file of the team; replaces the global one */
+  accessRemap?: string;
+}
+
+/** How a team is migrated in waves, as written in the teams file */
+export interface TeamWaveOptions {
+  canaryEmails?: string[];
+  canarySize?: number;
+  batchSize?: number;
+  canaryPauseMs?: number;
+  intervalMs?: number;
+  maxErrorPercent?: number;
+}
+
 export interface TeamConfig {
   teamId: string;
   apiKey: string;
+  /** Where the API key came from, e.g. "env:TEAM_A_API_KEY"; safe to log */
+  apiKeySource?: string;
+  rules?: MemberSelectionRules;
+  options?: TeamOptionOverrides;
+}
+
+/** A team configuration as written in the teams file, whose API key may be a reference */
+export interface TeamConfigEntry extends Omit<TeamConfig, 'apiKey' | 'apiKeySource'> {
+  apiKey: string | SecretReference;
+}
+
+export interface BackupKey {
+  /** Where the key comes from, e.g. "env:BACKUP_KEY"; recorded in backups */
+  source: string;
+  secret: string;
 }
 
 export interface BackupOptions {
   enabled: boolean;
   path: string;
-} 
\ No newline at end of file
+  key?: BackupKey;
+  allowUnencrypted?: boolean;
+}
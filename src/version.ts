@@ -0,0 +1,2 @@
+// Keep in sync with the version in package.json
+export const TOOL_VERSION = '1.0.0';
@@ -0,0 +1,132 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { AccessRemapper } from '../src/services/access-remapper';
+import { AccessRemapRules } from '../src/types/uniform-api';
+import { member } from './helpers';
+
+const rules: AccessRemapRules = {
+  roles: { developer: 'editor', reviewer: 'viewer' },
+  dropPermissions: ['OPT_PUB', 'UPM_PUB'],
+  projects: {
+    'project-1': { roles: { reviewer: 'approver' }, replacePermissions: { UPM_PUB: 'UPM_PUBLISH' } },
+    'project-2': { grantPermissions: ['UPM_READ'] },
+  },
+  standardRoles: { viewer: ['UPM_READ', 'OPT_READ'] },
+};
+
+describe('AccessRemapper', () => {
+  test('renames roles, project renames first', () => {
+    const remapper = new AccessRemapper(rules);
+    const projects = remapper.remapProjects({
+      projects: {
+        'project-1': { roles: ['developer', 'reviewer'] },
+        'project-3': { roles: ['reviewer', 'viewer'], name: 'Project 3' },
+      },
+    });
+
+    assert.deepEqual(projects, {
+      'project-1': { roles: ['editor', 'approver'] },
+      'project-3': { roles: ['viewer'], name: 'Project 3' },
+    });
+  });
+
+  test('drops, replaces and grants custom permissions per project', () => {
+    const remapper = new AccessRemapper(rules);
+    const projects = remapper.remapProjects({
+      projects: {
+        'project-1': { roles: [], customPermissions: ['UPM_PUB', 'OPT_PUB', 'UPM_WRITE'] },
+        'project-2': { roles: [], customPermissions: ['UPM_WRITE', 'UPM_PUB'] },
+        'project-3': { roles: ['editor'], customPermissions: ['OPT_PUB'] },
+        'project-4': { roles: ['editor'] },
+      },
+    });
+
+    assert.deepEqual(projects, {
+      'project-1': { roles: [], customPermissions: ['UPM_PUBLISH', 'UPM_WRITE'] },
+      'project-2': { roles: [], customPermissions: ['UPM_WRITE', 'UPM_READ'] },
+      'project-3': { roles: ['editor'] },
+      'project-4': { roles: ['editor'] },
+    });
+  });
+
+  test('grants permissions to members that only have roles in the project', () => {
+    const remapper = new AccessRemapper(rules);
+    const projects = remapper.remapProjects({
+      projects: {
+        'project-2': { roles: ['developer'] },
+        'project-4': { roles: ['developer'] },
+      },
+    });
+
+    assert.deepEqual(projects, {
+      'project-2': { roles: ['editor'], customPermissions: ['UPM_READ'] },
+      'project-4': { roles: ['editor'] },
+    });
+  });
+
+  test('removes projects left without roles or permissions', () => {
+    const remapper = new AccessRemapper(rules);
+    const bob = member('bob@example.com', {
+      projects: {
+        'project-1': { roles: ['developer'] },
+        'project-3': { roles: [], customPermissions: ['OPT_PUB', 'UPM_PUB'] },
+      },
+    });
+    const remapped = remapper.remap(bob);
+
+    assert.ok(remapped);
+    assert.deepEqual(remapped.after, { 'project-1': { roles: ['editor'] } });
+    assert.deepEqual(remapped.changes, [
+      'project project-1 roles: [developer] -> [editor]',
+      'project project-3: removed (roles [], customPermissions [OPT_PUB, UPM_PUB])',
+    ]);
+  });
+
+  test('converts custom permissions equal to a standard role onto the role', () => {
+    const remapper = new AccessRemapper(rules);
+    const projects = remapper.remapProjects({
+      projects: {
+        'project-2': { roles: [], customPermissions: ['OPT_READ', 'OPT_PUB'] },
+        'project-3': { roles: [], customPermissions: ['OPT_READ', 'UPM_READ'] },
+        'project-4': { roles: [], customPermissions: ['OPT_READ', 'UPM_READ', 'UPM_WRITE'] },
+      },
+    });
+
+    assert.deepEqual(projects, {
+      'project-2': { roles: ['viewer'] },
+      'project-3': { roles: ['viewer'] },
+      'project-4': { roles: [], customPermissions: ['OPT_READ', 'UPM_READ', 'UPM_WRITE'] },
+    });
+  });
+
+  test('describes the access before and after for changed members only', () => {
+    const remapper = new AccessRemapper(rules);
+    assert.equal(remapper.remap(member('jane@example.com')), undefined);
+
+    const bob = member('bob@example.com', { projects: { 'project-3': { roles: ['developer'], customPermissions: ['OPT_PUB'] } } });
+    const remapped = remapper.remap(bob);
+    assert.ok(remapped);
+    assert.equal(remapped.email, 'bob@example.com');
+    assert.deepEqual(remapped.before, bob.projects);
+    assert.deepEqual(remapped.after, { 'project-3': { roles: ['editor'] } });
+    assert.ok(remapped.changes.length > 0);
+  });
+
+  test('rejects malformed or contradictory rules', () => {
+    const invalid: [unknown, RegExp][] = [
+      [[], /must be an object/],
+      [{ role: {} }, /Unknown access remap key "role"/],
+      [{ roles: { developer: '' } }, /"roles" .* must map names to non-empty strings/],
+      [{ dropPermissions: 'OPT_PUB' }, /"dropPermissions" .* must be an array of strings/],
+      [{ projects: { 'project-1': { grant: [] } } }, /Unknown access remap key "grant" in project project-1/],
+      [{ dropPermissions: ['UPM_PUB'], projects: { 'project-1': { grantPermissions: ['UPM_PUB'] } } }, /grants dropped permissions: UPM_PUB/],
+      [{ standardRoles: { viewer: [] } }, /standard role viewer .* has no permissions/],
+      [{ dropPermissions: ['OPT_PUB'], standardRoles: { viewer: ['OPT_PUB'] } }, /has dropped permissions: OPT_PUB/],
+      [{ standardRoles: { viewer: ['UPM_READ', 'OPT_READ'], reader: ['OPT_READ', 'UPM_READ'] } }, /viewer and reader .* same permissions/],
+    ];
+
+    for (const [invalidRules, message] of invalid) {
+      assert.throws(() => new AccessRemapper(invalidRules as AccessRemapRules), message);
+    }
+  });
+});
@@ -0,0 +1,95 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { InMemoryMembersClient, InMemoryMembersClientOptions } from '../src/client/in-memory-members-client';
+import { MembersClient } from '../src/client/members-client';
+import { ConsoleLogger } from '../src/services/logger';
+import { MigrationOptions, MigrationService } from '../src/services/migration-service';
+import { Member, TeamConfig } from '../src/types/uniform-api';
+
+export const TEAM: TeamConfig = { teamId: 'team-1', apiKey: 'key-1' };
+
+export const silentLogger = new ConsoleLogger({ level: 'silent' });
+
+/**
+ * Create a member of the test team
+ * @param email The member's email
+ * @param overrides Fields that differ from a regular editor of project-1
+ * @returns The member
+ */
+export function member(email: string, overrides: Partial<Member> = {}): Member {
+  const name = email.split('@')[0];
+  return {
+    subject: `sso|${name}`,
+    name: name[0].toUpperCase() + name.slice(1),
+    email,
+    isTeamAdmin: false,
+    projects: { 'project-1': { roles: ['editor'] } },
+    type: 'member',
+    memberSince: '2023-01-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+/**
+ * The members of the test team: an admin kept out of migrations as a
+ * break-glass account, two editors and an API key
+ * @returns The members
+ */
+export function teamMembers(): Member[] {
+  return [
+    member('admin@example.com', { isTeamAdmin: true, projects: {} }),
+    member('jane@example.com'),
+    member('bob@example.com', { projects: { 'project-1': { roles: [], customPermissions: ['UPM_READ'] } } }),
+    member('deploy@example.com', { type: 'apiKey', projects: {} }),
+  ];
+}
+
+/**
+ * Create an in-memory client serving the test team
+ * @param members The members of the test team
+ * @param options More client options, e.g. failures to inject
+ * @returns The client
+ */
+export function createClient(members: Member[] = teamMembers(), options: InMemoryMembersClientOptions = {}): InMemoryMembersClient {
+  return new InMemoryMembersClient({ ...options, teams: [{ teamId: TEAM.teamId, apiKeys: [TEAM.apiKey], members }] });
+}
+
+/**
+ * Create a migration service for a live run that marks old accounts obsolete,
+ * without backups, keeping the test team's admin out of the migration
+ * @param client The client
+ * @param options Options that differ
+ * @returns The service
+ */
+export function createService(client: MembersClient, options: Partial<MigrationOptions> = {}): MigrationService {
+  return new MigrationService(client, {
+    markObsolete: true,
+    deleteMembers: false,
+    dryRun: false,
+    backup: { enabled: false, path: '' },
+    breakGlassEmails: ['admin@example.com'],
+    logger: silentLogger,
+    ...options,
+  });
+}
+
+/**
+ * Create a temporary directory, removed when the process exits
+ * @returns The directory path
+ */
+export function createTempDir(): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'uniform-sso-migration-'));
+  process.on('exit', () => fs.rmSync(dir, { recursive: true, force: true }));
+  return dir;
+}
+
+/**
+ * Find the members of the test team with an email
+ * @param client The client
+ * @param email The email
+ * @returns The members, old accounts first
+ */
+export function accountsOf(client: InMemoryMembersClient, email: string): Member[] {
+  return client.getTeamMembers(TEAM.teamId).filter((candidate) => candidate.email === email);
+}
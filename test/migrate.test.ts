@@ -0,0 +1,340 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as path from 'path';
+import { InMemoryMembersClient } from '../src/client/in-memory-members-client';
+import { AccessRemapper } from '../src/services/access-remapper';
+import { readBackup } from '../src/services/member-backup';
+import { MigrationJournal } from '../src/services/migration-journal';
+import { ApiResponse, DeleteMemberRequest, InviteMemberRequest, InviteMemberResponse } from '../src/types/uniform-api';
+import { accountsOf, createClient, createService, createTempDir, member, TEAM, teamMembers } from './helpers';
+
+describe('migrateTeam', () => {
+  test('marks old accounts obsolete after inviting their replacements', async () => {
+    const client = createClient();
+    const result = await createService(client).migrateTeam(TEAM);
+
+    assert.deepEqual(result.errors, []);
+    assert.equal(result.membersFound, 3);
+    assert.equal(result.invitationsSent, 2);
+    assert.equal(result.membersMarkedObsolete, 2);
+    assert.equal(result.membersDeleted, 0);
+
+    const [oldJane, newJane] = accountsOf(client, 'jane@example.com');
+    assert.equal(oldJane.name, 'OBSOLETE - Jane');
+    assert.equal(newJane.name, 'Jane');
+    assert.deepEqual(newJane.projects, { 'project-1': { roles: ['editor'] } });
+
+    const [, newBob] = accountsOf(client, 'bob@example.com');
+    assert.deepEqual(newBob.projects, { 'project-1': { roles: [], customPermissions: ['UPM_READ'] } });
+
+    assert.deepEqual(
+      result.memberStates.map(({ email, state }) => [email, state]),
+      [
+        ['jane@example.com', 'migrated'],
+        ['bob@example.com', 'migrated'],
+      ]
+    );
+  });
+
+  test('invites every replacement before its old account is touched', async () => {
+    const client = createClient();
+    await createService(client).migrateTeam(TEAM);
+
+    const changes = client.requests.filter((request) => request.method !== 'get');
+    assert.deepEqual(
+      changes.map(({ method, email }) => [method, email]),
+      [
+        ['invite', 'jane@example.com'],
+        ['update', 'jane@example.com'],
+        ['invite', 'bob@example.com'],
+        ['update', 'bob@example.com'],
+      ]
+    );
+  });
+
+  test('confirms invitations from their answers instead of reading the team again', async () => {
+    const client = createClient([...teamMembers(), member('carol@example.com'), member('dave@example.com')]);
+    const result = await createService(client).migrateTeam(TEAM);
+
+    assert.deepEqual(result.errors, []);
+    assert.equal(result.invitationsSent, 4);
+    assert.equal(client.requests.filter((request) => request.method === 'get').length, 1);
+  });
+
+  test('reads the team to confirm invitations whose answers name no account', async () => {
+    class AnonymousInviteClient extends InMemoryMembersClient {
+      async inviteMember(request: InviteMemberRequest, apiKey: string): Promise<ApiResponse<InviteMemberResponse>> {
+        const response = await super.inviteMember(request, apiKey);
+        return { ...response, data: {} };
+      }
+    }
+
+    const client = new AnonymousInviteClient({
+      teams: [{ teamId: TEAM.teamId, apiKeys: [TEAM.apiKey], members: teamMembers() }],
+      // Jane's invitation is answered as if it succeeded, but creates no account
+      fail: (request) => (request.method === 'invite' && request.email === 'jane@example.com' ? 201 : undefined),
+    });
+    const result = await createService(client).migrateTeam(TEAM);
+
+    assert.deepEqual(result.errors, ["Invitation to jane@example.com was accepted but doesn't show up in team team-1"]);
+    assert.equal(client.requests.filter((request) => request.method === 'get').length, 3);
+    assert.deepEqual(Object.fromEntries(result.memberStates.map(({ email, state }) => [email, state])), {
+      'jane@example.com': 'unchanged',
+      'bob@example.com': 'migrated',
+    });
+    assert.deepEqual(accountsOf(client, 'jane@example.com'), [member('jane@example.com')]);
+  });
+
+  test('checks deleted accounts with one read per batch and re-invites members left without an account', async () => {
+    // Deleting Jane's old account takes her pending invitation with it
+    class LossyClient extends InMemoryMembersClient {
+      async deleteMember(request: DeleteMemberRequest, apiKey: string): Promise<ApiResponse<any>> {
+        const response = await super.deleteMember(request, apiKey);
+        const invited = this.getTeamMembers(TEAM.teamId).find((account) => account.email === 'jane@example.com');
+        if (request.subject === 'sso|jane' && invited) {
+          await super.deleteMember({ teamId: TEAM.teamId, subject: invited.subject }, apiKey);
+        }
+        return response;
+      }
+    }
+
+    const client = new LossyClient({ teams: [{ teamId: TEAM.teamId, apiKeys: [TEAM.apiKey], members: teamMembers() }] });
+    const result = await createService(client, { markObsolete: false, deleteMembers: true }).migrateTeam(TEAM);
+
+    assert.deepEqual(result.errors, []);
+    assert.equal(client.requests.filter((request) => request.method === 'get').length, 2);
+    assert.deepEqual(Object.fromEntries(result.memberStates.map(({ email, state }) => [email, state])), {
+      'jane@example.com': 'compensated',
+      'bob@example.com': 'migrated',
+    });
+
+    const [jane] = accountsOf(client, 'jane@example.com');
+    assert.notEqual(jane.subject, 'sso|jane');
+    assert.deepEqual(jane.projects, member('jane@example.com').projects);
+  });
+
+  test('deletes old accounts, backing the team up first', async () => {
+    const backupDir = createTempDir();
+    const client = createClient();
+    const result = await createService(client, {
+      markObsolete: false,
+      deleteMembers: true,
+      backup: { enabled: true, path: backupDir, allowUnencrypted: true },
+    }).migrateTeam(TEAM);
+
+    assert.deepEqual(result.errors, []);
+    assert.equal(result.invitationsSent, 2);
+    assert.equal(result.membersDeleted, 2);
+    assert.equal(result.backupCreated, true);
+
+    for (const email of ['jane@example.com', 'bob@example.com']) {
+      const accounts = accountsOf(client, email);
+      assert.equal(accounts.length, 1);
+      assert.notEqual(accounts[0].subject, member(email).subject);
+    }
+
+    const backup = readBackup(result.backupPath!, { allowUnencrypted: true });
+    assert.equal(backup.metadata?.teamId, TEAM.teamId);
+    assert.deepEqual(
+      backup.members.map((backedUp) => backedUp.email),
+      ['admin@example.com', 'jane@example.com', 'bob@example.com']
+    );
+    // Unencrypted backups hold member data too
+    assert.equal(fs.statSync(result.backupPath!).mode & 0o777, 0o600);
+  });
+
+  test('changes nothing in a dry run', async () => {
+    for (const mode of [{ markObsolete: true }, { markObsolete: false, deleteMembers: true }]) {
+      const client = createClient();
+      const result = await createService(client, { ...mode, dryRun: true }).migrateTeam(TEAM);
+
+      assert.deepEqual(result.errors, []);
+      assert.deepEqual(new Set(client.requests.map((request) => request.method)), new Set(['get']));
+      assert.deepEqual(client.getTeamMembers(TEAM.teamId), teamMembers());
+      assert.deepEqual(
+        result.members.filter((outcome) => outcome.action !== 'skip').map(({ email, status }) => [email, status]),
+        [
+          ['jane@example.com', 'dry-run'],
+          ['jane@example.com', 'dry-run'],
+          ['bob@example.com', 'dry-run'],
+          ['bob@example.com', 'dry-run'],
+        ]
+      );
+    }
+  });
+
+  test('skips ignored emails', async () => {
+    const client = createClient();
+    const result = await createService(client, { ignoredEmails: ['BOB@example.com'] }).migrateTeam(TEAM);
+
+    assert.deepEqual(result.errors, []);
+    assert.equal(result.invitationsSent, 1);
+    assert.ok(result.skipped.some((skipped) => skipped.email === 'bob@example.com' && skipped.reason === 'Ignored email'));
+    assert.ok(client.requests.every((request) => request.email !== 'bob@example.com'));
+    assert.deepEqual(accountsOf(client, 'bob@example.com'), [teamMembers()[2]]);
+  });
+
+  test('aborts deletions when the backup fails', async () => {
+    const client = createClient();
+    const result = await createService(client, {
+      markObsolete: false,
+      deleteMembers: true,
+      // Backups must be encrypted unless unencrypted backups are allowed
+      backup: { enabled: true, path: createTempDir() },
+    }).migrateTeam(TEAM);
+
+    assert.equal(result.backupCreated, false);
+    assert.ok(result.errors.some((error) => error.startsWith('Failed to create backup')));
+    assert.ok(result.errors.includes('Migration aborted because backup failed and delete members is enabled'));
+    assert.deepEqual(new Set(client.requests.map((request) => request.method)), new Set(['get']));
+    assert.deepEqual(client.getTeamMembers(TEAM.teamId), teamMembers());
+  });
+
+  test('carries on without deletions when the backup fails', async () => {
+    const backupPath = path.join(createTempDir(), 'not-a-directory');
+    fs.writeFileSync(backupPath, '');
+
+    const client = createClient();
+    const result = await createService(client, { backup: { enabled: true, path: backupPath, allowUnencrypted: true } }).migrateTeam(TEAM);
+
+    assert.equal(result.backupCreated, false);
+    assert.equal(result.errors.length, 1);
+    assert.match(result.errors[0], /^Failed to create backup/);
+    assert.equal(result.membersMarkedObsolete, 2);
+  });
+
+  test('records the errors of every member and migrates the others', async () => {
+    const client = createClient(
+      [...teamMembers(), member('carol@example.com'), member('dave@example.com')],
+      {
+        fail: (request) =>
+          (request.method === 'invite' && request.email === 'jane@example.com') ||
+          (request.method === 'update' && request.email === 'carol@example.com')
+            ? 500
+            : undefined,
+      }
+    );
+    const result = await createService(client).migrateTeam(TEAM);
+
+    assert.equal(result.errors.length, 2);
+    assert.match(result.errors[0], /jane@example\.com/);
+    assert.match(result.errors[1], /carol@example\.com/);
+    assert.equal(result.invitationsSent, 3);
+    assert.equal(result.membersMarkedObsolete, 2);
+
+    const states = Object.fromEntries(result.memberStates.map(({ email, state }) => [email, state]));
+    assert.deepEqual(states, {
+      'jane@example.com': 'unchanged',
+      'bob@example.com': 'migrated',
+      'carol@example.com': 'old-account-kept',
+      'dave@example.com': 'migrated',
+    });
+
+    // The failed invitation left Jane's old account untouched
+    assert.deepEqual(accountsOf(client, 'jane@example.com'), [member('jane@example.com')]);
+  });
+
+  test('counts a member with several errors once against the error budget of a rollout', async () => {
+    // Deleting Jane's old account takes her pending invitation with it, and
+    // inviting her again fails: two errors for one member
+    class LossyClient extends InMemoryMembersClient {
+      async deleteMember(request: DeleteMemberRequest, apiKey: string): Promise<ApiResponse<any>> {
+        const response = await super.deleteMember(request, apiKey);
+        const invited = this.getTeamMembers(TEAM.teamId).find((account) => account.email === 'jane@example.com');
+        if (request.subject === 'sso|jane' && invited) {
+          await super.deleteMember({ teamId: TEAM.teamId, subject: invited.subject }, apiKey);
+        }
+        return response;
+      }
+    }
+
+    let janeInvites = 0;
+    const client = new LossyClient({
+      teams: [{ teamId: TEAM.teamId, apiKeys: [TEAM.apiKey], members: [...teamMembers(), member('carol@example.com')] }],
+      fail: (request) => (request.method === 'invite' && request.email === 'jane@example.com' && ++janeInvites > 1 ? 500 : undefined),
+    });
+    const result = await createService(client, {
+      markObsolete: false,
+      deleteMembers: true,
+      waves: { canarySize: 2, maxErrorPercent: 50 },
+    }).migrateTeam(TEAM);
+
+    assert.equal(result.errors.length, 2);
+    assert.ok(result.errors.every((error) => error.includes('jane@example.com')));
+    assert.equal(result.rollout?.stoppedReason, undefined);
+    assert.deepEqual(
+      result.rollout?.completedWaves.map(({ name, members, errors }) => [name, members, errors]),
+      [
+        ['canary', 2, 2],
+        ['wave 1', 1, 0],
+      ]
+    );
+    assert.deepEqual(Object.fromEntries(result.memberStates.map(({ email, state }) => [email, state])), {
+      'jane@example.com': 'no-access',
+      'bob@example.com': 'migrated',
+      'carol@example.com': 'migrated',
+    });
+  });
+
+  test('invites replacements with remapped access', async () => {
+    const client = createClient();
+    const accessRemapper = new AccessRemapper({ standardRoles: { viewer: ['UPM_READ'] } });
+    const result = await createService(client, { accessRemapper }).migrateTeam(TEAM);
+
+    assert.deepEqual(result.errors, []);
+    const [, newBob] = accountsOf(client, 'bob@example.com');
+    assert.deepEqual(newBob.projects, { 'project-1': { roles: ['viewer'] } });
+    const [, newJane] = accountsOf(client, 'jane@example.com');
+    assert.deepEqual(newJane.projects, { 'project-1': { roles: ['editor'] } });
+
+    assert.deepEqual(
+      result.remappedAccess.map(({ email, before, after }) => [email, before, after]),
+      [['bob@example.com', teamMembers()[2].projects, newBob.projects]]
+    );
+  });
+
+  test('reports a team it cannot read', async () => {
+    const client = createClient();
+    const result = await createService(client).migrateTeam({ ...TEAM, apiKey: 'wrong-key' });
+
+    assert.deepEqual(result.errors, ['Failed to get members: Forbidden']);
+    assert.equal(client.requests.length, 1);
+  });
+});
+
+describe('applyTeamPlan', () => {
+  test('resumes an interrupted apply from its journal and leaves it to roll back', async () => {
+    let bobUpdates = 0;
+    const client = createClient(teamMembers(), {
+      fail: (request) => (request.method === 'update' && request.email === 'bob@example.com' && ++bobUpdates === 1 ? 500 : undefined),
+    });
+    const teamPlan = await createService(client, { dryRun: true }).planTeam(TEAM);
+    const journalPath = path.join(createTempDir(), 'migrate-journal.jsonl');
+
+    const interrupted = await createService(client, { journal: MigrationJournal.create(journalPath, 'migrate') }).applyTeamPlan(teamPlan, TEAM);
+    assert.equal(interrupted.errors.length, 1);
+    assert.match(interrupted.errors[0], /bob@example\.com/);
+
+    const journal = MigrationJournal.resume(journalPath, 'migrate');
+    const service = createService(client, { journal });
+    assert.equal(await service.checkPlanIsCurrent(teamPlan, TEAM), undefined);
+
+    const resumed = await service.applyTeamPlan(teamPlan, TEAM);
+    assert.deepEqual(resumed.errors, []);
+    assert.equal(resumed.invitationsSent, 0);
+    assert.equal(resumed.membersMarkedObsolete, 1);
+    assert.ok(journal.isTeamCompleted(TEAM.teamId));
+    assert.deepEqual(
+      ['jane@example.com', 'bob@example.com'].map((email) => accountsOf(client, email).map((account) => account.name)),
+      [
+        ['OBSOLETE - Jane', 'Jane'],
+        ['OBSOLETE - Bob', 'Bob'],
+      ]
+    );
+
+    const rollback = await createService(client).rollbackTeam(MigrationJournal.resume(journalPath, 'migrate'), TEAM);
+    assert.deepEqual(rollback.errors, []);
+    assert.deepEqual(client.getTeamMembers(TEAM.teamId), teamMembers());
+  });
+});
@@ -0,0 +1,55 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { UniformClient } from '../src/client/uniform-client';
+import { MockUniformServer } from '../src/mock/uniform-mock-server';
+import { createService, silentLogger, TEAM, teamMembers } from './helpers';
+
+describe('MockUniformServer', () => {
+  const server = new MockUniformServer({
+    teams: [{ teamId: TEAM.teamId, apiKeys: [TEAM.apiKey], members: teamMembers() }],
+  });
+  let client: UniformClient;
+
+  before(async () => {
+    const url = await server.start();
+    client = new UniformClient(`${url}/api/v1`, { retry: { baseDelayMs: 1 }, logger: silentLogger });
+  });
+
+  after(() => server.stop());
+
+  test('checks API keys against the team', async () => {
+    assert.equal((await client.getMembers(TEAM.teamId, '')).status, 401);
+    assert.equal((await client.getMembers(TEAM.teamId, 'wrong-key')).status, 403);
+    assert.equal((await client.getMembers('team-2', TEAM.apiKey)).status, 403);
+
+    const response = await client.getMembers(TEAM.teamId, TEAM.apiKey);
+    assert.equal(response.status, 200);
+    assert.deepEqual(response.data, teamMembers().slice(0, 3));
+  });
+
+  test('serves a migration through UniformClient, retrying injected failures', async () => {
+    const requestsBefore = server.requests.length;
+    server.failNext(429, { method: 'POST' });
+    server.failNext(503, { method: 'PATCH' });
+    server.faults = { rejectEmails: ['bob@example.com'] };
+
+    const result = await createService(client).migrateTeam(TEAM);
+
+    assert.equal(result.invitationsSent, 1);
+    assert.equal(result.membersMarkedObsolete, 1);
+    assert.equal(result.errors.length, 1);
+    assert.match(result.errors[0], /bob@example\.com: Bad Request/);
+    assert.deepEqual(
+      server.getMembers(TEAM.teamId).map((member) => member.name),
+      ['Admin', 'OBSOLETE - Jane', 'Bob', 'Deploy', 'Jane']
+    );
+    assert.deepEqual(
+      server.requests.slice(requestsBefore).filter((request) => request.status !== 200).map(({ method, status }) => [method, status]),
+      [
+        ['POST', 429],
+        ['PATCH', 503],
+        ['POST', 400],
+      ]
+    );
+  });
+});
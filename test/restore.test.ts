@@ -0,0 +1,161 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as path from 'path';
+import { createMemberBackup, readBackup, writeBackup } from '../src/services/member-backup';
+import { MigrationOptions } from '../src/services/migration-service';
+import { Member } from '../src/types/uniform-api';
+import { accountsOf, createClient, createService, createTempDir, member, TEAM, teamMembers } from './helpers';
+
+const backupOptions: MigrationOptions['backup'] = { enabled: false, path: '', allowUnencrypted: true };
+
+/**
+ * Write an unencrypted backup of the test team's members
+ * @param members The backed up members
+ * @param teamId The team the backup belongs to
+ * @returns The backup file path
+ */
+function writeTeamBackup(members: Member[] = teamMembers().slice(0, 3), teamId = TEAM.teamId): string {
+  const filePath = path.join(createTempDir(), `team-${teamId}-backup-2024-01-01T00-00-00-000Z.json`);
+  writeBackup(filePath, createMemberBackup(teamId, 'memory://uniform', members), { allowUnencrypted: true });
+  return filePath;
+}
+
+describe('restoreFromBackup', () => {
+  test('invites backed up members missing from the team', async () => {
+    const client = createClient([teamMembers()[0]]);
+    const result = await createService(client, { backup: backupOptions }).restoreFromBackup(writeTeamBackup(), TEAM);
+
+    assert.deepEqual(result.errors, []);
+    assert.equal(result.success, true);
+    assert.equal(result.membersRestored, 2);
+    assert.deepEqual(result.skipped.map((skipped) => skipped.email), ['admin@example.com']);
+
+    const [jane] = accountsOf(client, 'jane@example.com');
+    assert.deepEqual(jane.projects, { 'project-1': { roles: ['editor'] } });
+    const [bob] = accountsOf(client, 'bob@example.com');
+    assert.deepEqual(bob.projects, { 'project-1': { roles: [], customPermissions: ['UPM_READ'] } });
+  });
+
+  test('restores the access of members still in the team', async () => {
+    const drifted = member('jane@example.com', { isTeamAdmin: true, projects: { 'project-2': { roles: ['viewer'] } } });
+    const client = createClient([teamMembers()[0], drifted, teamMembers()[2]]);
+    const result = await createService(client, { backup: backupOptions }).restoreFromBackup(writeTeamBackup(), TEAM);
+
+    assert.deepEqual(result.errors, []);
+    assert.equal(result.membersRestored, 0);
+    assert.equal(result.membersUpdated, 1);
+    assert.equal(result.membersUnchanged, 1);
+    assert.deepEqual(accountsOf(client, 'jane@example.com'), [member('jane@example.com')]);
+  });
+
+  test('changes nothing in a dry run', async () => {
+    const client = createClient([teamMembers()[0]]);
+    const result = await createService(client, { backup: backupOptions, dryRun: true }).restoreFromBackup(writeTeamBackup(), TEAM);
+
+    assert.deepEqual(result.errors, []);
+    assert.equal(result.membersRestored, 2);
+    assert.deepEqual(new Set(client.requests.map((request) => request.method)), new Set(['get']));
+    assert.deepEqual(client.getTeamMembers(TEAM.teamId), [teamMembers()[0]]);
+  });
+
+  test('refuses a backup of another team unless team mismatches are allowed', async () => {
+    const backupPath = writeTeamBackup(undefined, 'team-2');
+
+    const refused = createClient([teamMembers()[0]]);
+    const result = await createService(refused, { backup: backupOptions }).restoreFromBackup(backupPath, TEAM);
+    assert.equal(result.success, false);
+    assert.deepEqual(result.errors, ['Backup belongs to team team-2, not team team-1']);
+    assert.deepEqual(refused.requests, []);
+
+    const allowed = createClient([teamMembers()[0]]);
+    const allowedResult = await createService(allowed, { backup: backupOptions, allowTeamMismatch: true }).restoreFromBackup(
+      backupPath,
+      TEAM
+    );
+    assert.equal(allowedResult.success, true);
+    assert.equal(allowedResult.membersRestored, 2);
+  });
+
+  test('refuses unreadable backups', async () => {
+    const client = createClient();
+    const missing = await createService(client, { backup: backupOptions }).restoreFromBackup('missing.json', TEAM);
+    assert.equal(missing.success, false);
+    assert.deepEqual(missing.errors, ['Backup file not found: missing.json']);
+
+    // Unencrypted backups must be explicitly allowed
+    const unencrypted = await createService(client, { backup: { enabled: false, path: '' } }).restoreFromBackup(
+      writeTeamBackup(),
+      TEAM
+    );
+    assert.equal(unencrypted.success, false);
+    assert.equal(unencrypted.errors.length, 1);
+    assert.deepEqual(client.requests, []);
+  });
+
+  test('reads backups taken after a migration, with old and new accounts sharing an email', async () => {
+    const client = createClient();
+    await createService(client).migrateTeam(TEAM);
+    const migrated = client.getTeamMembers(TEAM.teamId).filter((candidate) => candidate.type === 'member');
+    const backupPath = writeTeamBackup(migrated);
+
+    const backup = readBackup(backupPath, { allowUnencrypted: true });
+    assert.deepEqual(
+      backup.members.filter((backedUp) => backedUp.email === 'jane@example.com').map((backedUp) => backedUp.name),
+      ['OBSOLETE - Jane', 'Jane']
+    );
+
+    const restored = await createService(createClient(migrated), { backup: backupOptions }).restoreFromBackup(backupPath, TEAM);
+    assert.deepEqual(restored.errors, []);
+    assert.equal(restored.membersUnchanged, 4);
+
+    const verified = await createService(createClient(migrated), { backup: backupOptions }).verifyTeam(backupPath, TEAM);
+    assert.deepEqual(verified.errors, []);
+    assert.deepEqual(verified.missing, []);
+    assert.equal(verified.membersVerified, 2);
+  });
+
+  test('refuses backups in which a subject appears twice', async () => {
+    const client = createClient();
+    const backupPath = writeTeamBackup([member('jane@example.com'), member('jane@example.com', { name: 'OBSOLETE - Jane' })]);
+    const result = await createService(client, { backup: backupOptions }).restoreFromBackup(backupPath, TEAM);
+
+    assert.equal(result.success, false);
+    assert.equal(result.errors.length, 1);
+    assert.match(result.errors[0], /subject sso\|jane appears more than once/);
+    assert.deepEqual(client.requests, []);
+  });
+
+  test('records the members it fails to restore and restores the others', async () => {
+    const client = createClient([teamMembers()[0]], {
+      fail: (request) => (request.method === 'invite' && request.email === 'jane@example.com' ? 400 : undefined),
+    });
+    const result = await createService(client, { backup: backupOptions }).restoreFromBackup(writeTeamBackup(), TEAM);
+
+    assert.equal(result.success, false);
+    assert.equal(result.errors.length, 1);
+    assert.match(result.errors[0], /jane@example\.com/);
+    assert.equal(result.membersRestored, 1);
+    assert.equal(accountsOf(client, 'bob@example.com').length, 1);
+  });
+});
+
+describe('verifyTeam', () => {
+  test('passes a clean run that kept the old accounts marked obsolete', async () => {
+    const client = createClient();
+    const backupPath = writeTeamBackup();
+    const migration = await createService(client).migrateTeam(TEAM);
+    assert.deepEqual(migration.errors, []);
+
+    const verified = await createService(client, { backup: backupOptions }).verifyTeam(backupPath, TEAM);
+    assert.deepEqual(verified.errors, []);
+    assert.deepEqual(verified.missing, []);
+    assert.deepEqual(verified.drifted, []);
+    assert.deepEqual(verified.obsoleteAccounts, ['jane@example.com', 'bob@example.com']);
+    assert.equal(verified.obsoleteAccountsFail, false);
+    assert.equal(verified.passed, true);
+
+    const strict = await createService(client, { backup: backupOptions, failOnObsolete: true }).verifyTeam(backupPath, TEAM);
+    assert.equal(strict.obsoleteAccountsFail, true);
+    assert.equal(strict.passed, false);
+  });
+});